@@ -0,0 +1,244 @@
+// Service worker: caches the app shell for offline use and shows patch and dose reminders
+// while the app is closed. The page sends the reminder schedule; the worker keeps it
+// in IndexedDB and records notification actions there for the page to apply.
+
+const CACHE_NAME = 'estropad-shell-v1'
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/favicon.svg', '/icon-192.png', '/icon-512.png']
+
+// Must match src/utils/serviceWorker.ts
+const DB_NAME = 'estropad-sw'
+const DB_VERSION = 2
+const REMINDERS_STORE = 'reminders'
+const ACTIONS_STORE = 'actions'
+
+// Used when the app didn't send a snooze length
+const SNOOZE_MINUTES = 60
+const PERIODIC_SYNC_TAG = 'patch-reminders'
+
+// Open the reminder database, creating its stores on first use
+function openDb() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = event => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(REMINDERS_STORE)) {
+        db.createObjectStore(REMINDERS_STORE, { keyPath: 'id' })
+      } else if (event.oldVersion < 2) {
+        // Version 1 only held patch reminders, keyed by application; the app sends a fresh schedule
+        request.transaction.objectStore(REMINDERS_STORE).clear()
+      }
+      if (!db.objectStoreNames.contains(ACTIONS_STORE)) {
+        db.createObjectStore(ACTIONS_STORE, { keyPath: 'id' })
+      } else if (event.oldVersion < 2) {
+        request.transaction.objectStore(ACTIONS_STORE).clear()
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Run a callback against an object store, resolving with its request's result once committed
+async function withStore(storeName, mode, callback) {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = callback(transaction.objectStore(storeName))
+    transaction.oncomplete = () => {
+      db.close()
+      resolve(request ? request.result : undefined)
+    }
+    transaction.onerror = () => {
+      db.close()
+      reject(transaction.error)
+    }
+  })
+}
+
+function getAllReminders() {
+  return withStore(REMINDERS_STORE, 'readonly', store => store.getAll())
+}
+
+function putReminder(reminder) {
+  return withStore(REMINDERS_STORE, 'readwrite', store => store.put(reminder))
+}
+
+// Replace the schedule, keeping what was already shown or snoozed for unchanged reminders
+async function saveSchedule(reminders) {
+  const existing = new Map((await getAllReminders()).map(reminder => [reminder.id, reminder]))
+
+  await withStore(REMINDERS_STORE, 'readwrite', store => {
+    store.clear()
+    for (const reminder of reminders) {
+      const previous = existing.get(reminder.id)
+      const unchanged = previous && previous.dueAt === reminder.dueAt
+      store.put({
+        ...reminder,
+        notifiedAt: Math.max(unchanged && previous.notifiedAt || 0, reminder.notifiedAt || 0) || undefined,
+        snoozedUntil: unchanged ? previous.snoozedUntil : undefined
+      })
+    }
+  })
+}
+
+// Show every reminder that is due and hasn't been shown since it became due
+async function checkReminders() {
+  const now = Date.now()
+
+  for (const reminder of await getAllReminders()) {
+    const dueAt = reminder.snoozedUntil || reminder.notifyAt
+    if (dueAt > now || (reminder.notifiedAt && reminder.notifiedAt >= dueAt)) continue
+
+    await self.registration.showNotification(reminder.title, {
+      body: reminder.body,
+      // Disguised reminders leave out the app icon too
+      icon: reminder.disguised ? undefined : '/icon-192.png',
+      // Same tag as the app uses, so the two never show the same reminder twice
+      tag: reminder.id,
+      data: { reminderId: reminder.id },
+      actions: [
+        { action: 'changed', title: reminder.labels.changedAction },
+        { action: 'snooze', title: `Snooze ${reminder.snoozeMinutes || SNOOZE_MINUTES} min` }
+      ]
+    })
+
+    await putReminder({ ...reminder, notifiedAt: now })
+  }
+}
+
+// Tell open windows there is something to pick up; resolves with whether any were open
+async function notifyClients(message) {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+  for (const client of windows) {
+    client.postMessage(message)
+  }
+  return windows.length > 0
+}
+
+// Record that the patch was changed or the dose taken, for the app to apply
+async function markChanged(reminderId) {
+  const reminder = (await getAllReminders()).find(item => item.id === reminderId)
+  if (!reminder) return
+
+  await withStore(ACTIONS_STORE, 'readwrite', store => {
+    return store.put({ id: `action-${Date.now()}`, type: 'changed', reminderId, dueAt: reminder.dueAt, at: Date.now() })
+  })
+  await withStore(REMINDERS_STORE, 'readwrite', store => store.delete(reminderId))
+
+  const hasOpenWindow = await notifyClients({ type: 'actions-pending' })
+  if (!hasOpenWindow) {
+    await self.registration.showNotification(reminder.labels.changedConfirmation, {
+      body: 'It will be added to your history next time you open the app.',
+      icon: reminder.disguised ? undefined : '/icon-192.png',
+      tag: `${reminderId}-saved`
+    })
+  }
+}
+
+// Show the reminder again later, and tell the app so it snoozes its copy too
+async function snooze(reminderId) {
+  const reminders = await getAllReminders()
+  const reminder = reminders.find(item => item.id === reminderId)
+  if (!reminder) return
+
+  const until = Date.now() + (reminder.snoozeMinutes || SNOOZE_MINUTES) * 60 * 1000
+  await putReminder({ ...reminder, snoozedUntil: until })
+
+  await withStore(ACTIONS_STORE, 'readwrite', store => {
+    return store.put({ id: `action-${Date.now()}`, type: 'snoozed', reminderId, dueAt: reminder.dueAt, at: Date.now(), until })
+  })
+  await notifyClients({ type: 'actions-pending' })
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  const url = new URL(request.url)
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+
+  // Pages: network first so updates arrive, falling back to the cached shell offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          const copy = response.clone()
+          caches.open(CACHE_NAME).then(cache => cache.put('/index.html', copy))
+          return response
+        })
+        .catch(() => caches.match('/index.html'))
+    )
+    // Opening the app wakes the worker, so use it to catch up on reminders
+    event.waitUntil(checkReminders())
+    return
+  }
+
+  // Everything else: cache first. Built assets have hashed names, so cached copies never go stale.
+  event.respondWith(
+    caches.match(request).then(cached => {
+      if (cached) return cached
+
+      return fetch(request).then(response => {
+        if (response.ok) {
+          const copy = response.clone()
+          caches.open(CACHE_NAME).then(cache => cache.put(request, copy))
+        }
+        return response
+      })
+    })
+  )
+})
+
+self.addEventListener('message', event => {
+  const message = event.data || {}
+
+  if (message.type === 'schedule') {
+    event.waitUntil(saveSchedule(message.reminders).then(checkReminders))
+  }
+})
+
+// Browsers that support it wake the worker periodically for installed apps
+self.addEventListener('periodicsync', event => {
+  if (event.tag === PERIODIC_SYNC_TAG) {
+    event.waitUntil(checkReminders())
+  }
+})
+
+self.addEventListener('notificationclick', event => {
+  const { notification, action } = event
+  const reminderId = notification.data && notification.data.reminderId
+  notification.close()
+
+  if (action === 'changed' && reminderId) {
+    event.waitUntil(markChanged(reminderId))
+    return
+  }
+
+  if (action === 'snooze' && reminderId) {
+    event.waitUntil(snooze(reminderId))
+    return
+  }
+
+  // Plain click: focus the app, or open it
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const existing = windows[0]
+      return existing ? existing.focus() : self.clients.openWindow('/dashboard')
+    })
+  )
+})
@@ -0,0 +1,174 @@
+import { randomBytes, randomUUID, scrypt, createHash, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
+
+const scryptAsync = promisify(scrypt)
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,32}$/
+
+// Rejected request, sent back to the client as { error }
+export class HttpError extends Error {
+  constructor(status, message) {
+    super(message)
+    this.status = status
+  }
+}
+
+function sha256(text) {
+  return createHash('sha256').update(text).digest('base64')
+}
+
+async function hashPassword(password, salt) {
+  return (await scryptAsync(password, salt, 64)).toString('base64')
+}
+
+async function checkPassword(password, user) {
+  const expected = Buffer.from(user.passwordHash, 'base64')
+  const actual = Buffer.from(await hashPassword(password, Buffer.from(user.salt, 'base64')), 'base64')
+  return timingSafeEqual(expected, actual)
+}
+
+function validatePassword(password) {
+  if (typeof password !== 'string' || password.length < 8 || password.length > 128) {
+    throw new HttpError(400, 'Password must be between 8 and 128 characters')
+  }
+}
+
+function toUser(user) {
+  return { id: user.id, username: user.username, email: user.email }
+}
+
+/**
+ * Account and session handling on top of the database
+ * @param {{ data: object, save: () => Promise<void> }} db
+ */
+export function createAuth(db) {
+  // Hand out a new pair of tokens; only their hashes are stored
+  async function startSession(user) {
+    const now = Date.now()
+    const session = {
+      user: toUser(user),
+      accessToken: randomBytes(32).toString('base64url'),
+      accessTokenExpiresAt: now + ACCESS_TOKEN_TTL_MS,
+      refreshToken: randomBytes(32).toString('base64url'),
+      refreshTokenExpiresAt: now + REFRESH_TOKEN_TTL_MS
+    }
+
+    db.data.sessions = db.data.sessions.filter(item => item.refreshTokenExpiresAt > now)
+    db.data.sessions.push({
+      userId: user.id,
+      accessTokenHash: sha256(session.accessToken),
+      accessTokenExpiresAt: session.accessTokenExpiresAt,
+      refreshTokenHash: sha256(session.refreshToken),
+      refreshTokenExpiresAt: session.refreshTokenExpiresAt
+    })
+    await db.save()
+
+    return session
+  }
+
+  function checkEmailAvailable(email) {
+    if (db.data.users.some(user => user.email === email)) {
+      throw new HttpError(409, 'An account with this email already exists')
+    }
+  }
+
+  async function register({ username, email, password }) {
+    const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : ''
+    const trimmedUsername = typeof username === 'string' ? username.trim() : ''
+
+    if (!EMAIL_PATTERN.test(normalizedEmail)) {
+      throw new HttpError(400, 'Please enter a valid email address')
+    }
+    if (!USERNAME_PATTERN.test(trimmedUsername)) {
+      throw new HttpError(400, 'Username must be 3-32 letters, numbers, dots, dashes or underscores')
+    }
+    validatePassword(password)
+    checkEmailAvailable(normalizedEmail)
+
+    const salt = randomBytes(16)
+    const passwordHash = await hashPassword(password, salt)
+
+    // Another sign-up with the same email may have finished while the password was hashing
+    checkEmailAvailable(normalizedEmail)
+
+    const user = {
+      id: randomUUID(),
+      username: trimmedUsername,
+      email: normalizedEmail,
+      salt: salt.toString('base64'),
+      passwordHash,
+      createdAt: new Date().toISOString()
+    }
+    db.data.users.push(user)
+
+    return startSession(user)
+  }
+
+  async function login({ email, password }) {
+    const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : ''
+    const user = db.data.users.find(item => item.email === normalizedEmail)
+
+    if (!user || typeof password !== 'string' || !(await checkPassword(password, user))) {
+      throw new HttpError(401, 'Invalid email or password')
+    }
+
+    return startSession(user)
+  }
+
+  async function refresh({ refreshToken }) {
+    const now = Date.now()
+    const tokenHash = sha256(String(refreshToken))
+    const stored = db.data.sessions.find(item => item.refreshTokenHash === tokenHash && item.refreshTokenExpiresAt > now)
+    const user = stored && db.data.users.find(item => item.id === stored.userId)
+
+    if (!user) {
+      throw new HttpError(401, 'Your session has expired. Please log in again.')
+    }
+
+    // Refresh tokens are single use
+    db.data.sessions = db.data.sessions.filter(item => item !== stored)
+    return startSession(user)
+  }
+
+  async function logout({ refreshToken }) {
+    const tokenHash = sha256(String(refreshToken))
+    db.data.sessions = db.data.sessions.filter(item => item.refreshTokenHash !== tokenHash)
+    await db.save()
+  }
+
+  // The user an Authorization header belongs to
+  function authenticate(header) {
+    const match = /^Bearer (.+)$/.exec(header || '')
+    const tokenHash = match && sha256(match[1])
+    const stored = tokenHash && db.data.sessions.find(item => {
+      return item.accessTokenHash === tokenHash && item.accessTokenExpiresAt > Date.now()
+    })
+    const user = stored && db.data.users.find(item => item.id === stored.userId)
+
+    if (!user) {
+      throw new HttpError(401, 'Your session has expired. Please log in again.')
+    }
+    return user
+  }
+
+  async function changePassword(user, { currentPassword, newPassword }) {
+    if (typeof currentPassword !== 'string' || !(await checkPassword(currentPassword, user))) {
+      throw new HttpError(400, 'Current password is incorrect')
+    }
+    validatePassword(newPassword)
+
+    const salt = randomBytes(16)
+    user.salt = salt.toString('base64')
+    user.passwordHash = await hashPassword(newPassword, salt)
+
+    // Sign out everywhere else
+    db.data.sessions = db.data.sessions.filter(item => item.userId !== user.id)
+    return startSession(user)
+  }
+
+  return { register, login, refresh, logout, authenticate, changePassword, toUser }
+}
@@ -0,0 +1,36 @@
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises'
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const DEFAULT_DATA_FILE = resolve(dirname(fileURLToPath(import.meta.url)), 'data/db.json')
+
+/**
+ * A small JSON file store. Everything is kept in memory and written back after each change.
+ * @param {string} [file] - Path of the JSON file
+ */
+export async function openDatabase(file = process.env.DATA_FILE || DEFAULT_DATA_FILE) {
+  let data = { users: [], sessions: [], calendars: {}, sync: {}, emails: {}, emailLog: [], reminders: {} }
+
+  try {
+    data = { ...data, ...JSON.parse(await readFile(file, 'utf8')) }
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error
+  }
+
+  // Writes are chained so they land in order. A failed write only fails its own save;
+  // the next one still writes everything.
+  let writing = Promise.resolve()
+
+  function save() {
+    const write = writing.catch(() => {}).then(async () => {
+      await mkdir(dirname(file), { recursive: true })
+      // Write then rename, so a crash never leaves half a file
+      await writeFile(`${file}.tmp`, JSON.stringify(data, null, 2))
+      await rename(`${file}.tmp`, file)
+    })
+    writing = write
+    return write
+  }
+
+  return { data, save, file }
+}
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { openDatabase } from './db.js'
+
+describe('openDatabase', () => {
+  let dir
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'estropad-db-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('writes the data and reads it back', async () => {
+    const file = join(dir, 'data', 'db.json')
+    const db = await openDatabase(file)
+    db.data.users.push({ id: 'user-1' })
+    await db.save()
+
+    const reopened = await openDatabase(file)
+    expect(reopened.data.users).toEqual([{ id: 'user-1' }])
+    expect(reopened.data.sessions).toEqual([])
+  })
+
+  it('keeps saving after a write fails', async () => {
+    const blocker = join(dir, 'data')
+    const file = join(blocker, 'db.json')
+    const db = await openDatabase(file)
+
+    // A file where the data directory should be makes the first write fail
+    await writeFile(blocker, '')
+
+    db.data.users.push({ id: 'user-1' })
+    await expect(db.save()).rejects.toThrow()
+
+    await rm(blocker)
+    db.data.users.push({ id: 'user-2' })
+    await db.save()
+
+    expect(JSON.parse(await readFile(file, 'utf8')).users).toEqual([{ id: 'user-1' }, { id: 'user-2' }])
+  })
+})
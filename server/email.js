@@ -0,0 +1,172 @@
+import { createHash, randomBytes, randomUUID } from 'node:crypto'
+import { HttpError } from './auth.js'
+import { sendMail } from './smtp.js'
+import { renderReminderEmail, renderVerificationEmail } from './emailTemplates.js'
+
+const VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Delivery log entries kept, newest last
+const LOG_LIMIT = 1000
+
+// Attempts at one reminder before giving up on it
+const MAX_ATTEMPTS = 3
+
+// Sender address without its display name, which would give away what the emails are about
+function plainAddress(from) {
+  const match = /<([^>]+)>/.exec(from)
+  return match ? match[1] : from
+}
+
+function sha256(text) {
+  return createHash('sha256').update(text).digest('base64url')
+}
+
+/**
+ * Email addresses, verification, unsubscribing and the delivery log
+ * @param {{ data: object, save: () => Promise<void> }} db
+ * @param {{ smtp: object, from: string, publicUrl: string, appUrl: string }} config
+ */
+export function createEmail(db, config) {
+  // The user's email record, created on first use
+  function getRecord(userId) {
+    db.data.emails[userId] ??= {
+      address: null,
+      verified: false,
+      unsubscribed: false,
+      unsubscribeToken: randomBytes(24).toString('base64url'),
+      verification: null
+    }
+    return db.data.emails[userId]
+  }
+
+  function getStatus(user) {
+    const { address, verified, unsubscribed } = getRecord(user.id)
+    return { address, verified, unsubscribed }
+  }
+
+  // Whether reminders may go to an address
+  function canEmail(userId, address) {
+    const record = db.data.emails[userId]
+    return !!record && !!address && record.verified && !record.unsubscribed &&
+      record.address === address.trim().toLowerCase()
+  }
+
+  function getUnsubscribeUrl(userId) {
+    return `${config.publicUrl}/email/unsubscribe?token=${getRecord(userId).unsubscribeToken}`
+  }
+
+  // Send a message and record the outcome
+  async function deliver(user, kind, to, { subject, text, html }, details = {}, disguised = false) {
+    const entry = {
+      id: randomUUID(),
+      userId: user.id,
+      kind,
+      to,
+      subject,
+      ...details,
+      at: new Date().toISOString()
+    }
+
+    try {
+      const headers = kind === 'verification' ? {} : {
+        'List-Unsubscribe': `<${getUnsubscribeUrl(user.id)}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+      }
+      const from = disguised ? plainAddress(config.from) : config.from
+      const result = await sendMail(config.smtp, { from, to, subject, text, html, headers })
+      Object.assign(entry, { status: 'sent', messageId: result.messageId, response: result.response })
+    } catch (error) {
+      Object.assign(entry, { status: 'failed', error: error.message })
+      console.error(`Email to ${to} failed:`, error.message)
+    }
+
+    db.data.emailLog.push(entry)
+    if (db.data.emailLog.length > LOG_LIMIT) {
+      db.data.emailLog.splice(0, db.data.emailLog.length - LOG_LIMIT)
+    }
+    await db.save()
+
+    return entry
+  }
+
+  // Send a confirmation link; reminders wait until it is followed
+  async function requestVerification(user, { email, disguised }) {
+    const address = typeof email === 'string' ? email.trim().toLowerCase() : ''
+    if (!EMAIL_PATTERN.test(address)) {
+      throw new HttpError(400, 'Please enter a valid email address')
+    }
+
+    const record = getRecord(user.id)
+    const token = randomBytes(24).toString('base64url')
+    record.address = address
+    record.verified = false
+    record.verification = { tokenHash: sha256(token), expiresAt: Date.now() + VERIFICATION_TTL_MS }
+
+    const verifyUrl = `${config.publicUrl}/email/verify?token=${token}`
+    const message = renderVerificationEmail({ username: user.username, verifyUrl, disguised: disguised === true })
+    const entry = await deliver(user, 'verification', address, message, {}, disguised === true)
+
+    if (entry.status !== 'sent') {
+      throw new HttpError(502, 'The verification email could not be sent. Please try again later.')
+    }
+    return getStatus(user)
+  }
+
+  // Follow a confirmation link. Confirming again also resubscribes.
+  async function verify(token) {
+    const tokenHash = sha256(String(token))
+    const record = Object.values(db.data.emails).find(item => {
+      return item.verification?.tokenHash === tokenHash && item.verification.expiresAt > Date.now()
+    })
+    if (!record) return false
+
+    record.verified = true
+    record.unsubscribed = false
+    record.verification = null
+    await db.save()
+    return true
+  }
+
+  async function unsubscribe(token) {
+    const record = Object.values(db.data.emails).find(item => item.unsubscribeToken === String(token))
+    if (!record) return false
+
+    record.unsubscribed = true
+    await db.save()
+    return true
+  }
+
+  // Latest deliveries for a user, newest first
+  function getLog(user) {
+    return db.data.emailLog
+      .filter(entry => entry.userId === user.id)
+      .slice(-50)
+      .reverse()
+      .map(({ id, kind, to, subject, status, error, at }) => ({ id, kind, to, subject, status, error, at }))
+  }
+
+  // Whether a reminder still needs sending: not sent yet, and not failed too often
+  function shouldSendReminder(reminderKey) {
+    const attempts = db.data.emailLog.filter(entry => entry.reminderKey === reminderKey)
+    return !attempts.some(entry => entry.status === 'sent') && attempts.length < MAX_ATTEMPTS
+  }
+
+  async function sendReminder(user, settings, reminder, kind, reminderKey) {
+    const message = renderReminderEmail({
+      username: user.username,
+      kind,
+      name: reminder.name,
+      deliveryKind: reminder.deliveryKind,
+      dueAt: reminder.dueAt,
+      timeZone: settings.timeZone,
+      appUrl: config.appUrl,
+      unsubscribeUrl: getUnsubscribeUrl(user.id),
+      disguised: settings.preferences.disguised
+    })
+    const to = settings.preferences.emailAddress.trim().toLowerCase()
+    return deliver(user, kind, to, message, { reminderKey }, settings.preferences.disguised)
+  }
+
+  return { getStatus, canEmail, requestVerification, verify, unsubscribe, getLog, shouldSendReminder, sendReminder }
+}
@@ -0,0 +1,120 @@
+const BRAND_COLOR = '#ec4899'
+
+function escapeHtml(text) {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Shared frame for every email, with inline styles since mail clients drop stylesheets
+function layout(title, bodyHtml, footerHtml = '') {
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#fdf2f8;font-family:Arial,sans-serif;color:#1f2937">
+  <div style="max-width:520px;margin:0 auto;background:#ffffff;border:4px solid ${BRAND_COLOR};padding:24px">
+    <h1 style="margin:0 0 16px;font-size:20px;color:#9d174d">${escapeHtml(title)}</h1>
+    ${bodyHtml}
+  </div>
+  <p style="max-width:520px;margin:16px auto 0;font-size:12px;color:#6b7280">${footerHtml}</p>
+</body>
+</html>`
+}
+
+function button(url, label) {
+  return `<p style="margin:24px 0"><a href="${escapeHtml(url)}" style="background:${BRAND_COLOR};color:#ffffff;padding:10px 16px;text-decoration:none;font-weight:bold">${escapeHtml(label)}</a></p>`
+}
+
+function formatTime(ms, timeZone) {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'medium', timeStyle: 'short' }).format(new Date(ms))
+  } catch {
+    return new Date(ms).toUTCString()
+  }
+}
+
+/**
+ * Email asking the user to confirm an address before reminders go to it
+ */
+export function renderVerificationEmail({ username, verifyUrl, disguised = false }) {
+  const subject = disguised ? 'Confirm your email address' : 'Confirm your email for medication reminders'
+  const purpose = disguised ? 'reminders' : 'patch change and dose reminders'
+  const text = [
+    `Hi ${username},`,
+    '',
+    `Please confirm this address to start getting ${purpose} by email:`,
+    verifyUrl,
+    '',
+    'The link works for 24 hours. If you did not ask for this, you can ignore this email.'
+  ].join('\n')
+  const html = layout(subject, `
+    <p>Hi ${escapeHtml(username)},</p>
+    <p>Please confirm this address to start getting ${purpose} by email.</p>
+    ${button(verifyUrl, 'Confirm email address')}
+    <p style="font-size:13px;color:#6b7280">The link works for 24 hours. If you did not ask for this, you can ignore this email.</p>`)
+
+  return { subject, text, html }
+}
+
+/**
+ * Patch change or dose reminder: a heads-up before it is due, or an escalation when it is long overdue.
+ * Disguised reminders only give the time, for users who don't want their inbox to say what they are for.
+ * @param {{ username: string, kind: 'reminder' | 'escalation', name: string, deliveryKind?: string, dueAt: number, timeZone: string, appUrl: string, unsubscribeUrl: string, disguised?: boolean }} options
+ */
+export function renderReminderEmail({ username, kind, name, deliveryKind = 'patch', dueAt, timeZone, appUrl, unsubscribeUrl, disguised = false }) {
+  const when = formatTime(dueAt, timeZone)
+  let subject
+  let message
+
+  if (deliveryKind === 'patch') {
+    subject = kind === 'escalation' ? 'Your patch change is overdue' : 'Time to change your patch soon'
+    message = kind === 'escalation'
+      ? `Your ${name} patch was due to be changed at ${when} and hasn't been marked as changed. Please change it as soon as you can.`
+      : `Your ${name} patch needs to be changed at ${when}.`
+  } else {
+    subject = kind === 'escalation' ? 'Your dose is overdue' : 'Your next dose is coming up'
+    message = kind === 'escalation'
+      ? `Your ${name} dose was due at ${when} and hasn't been marked as taken. Please take it as soon as you can.`
+      : `Your ${name} dose is due at ${when}.`
+  }
+
+  if (disguised) {
+    subject = kind === 'escalation' ? 'Reminder still open' : 'Upcoming reminder'
+    message = kind === 'escalation'
+      ? `Your reminder for ${when} is still open.`
+      : `You have a reminder at ${when}.`
+  }
+
+  const text = [
+    `Hi ${username},`,
+    '',
+    message,
+    '',
+    `${disguised ? 'Open the app' : 'Open the tracker'}: ${appUrl}`,
+    '',
+    `Stop email reminders: ${unsubscribeUrl}`
+  ].join('\n')
+  const html = layout(subject, `
+    <p>Hi ${escapeHtml(username)},</p>
+    <p>${escapeHtml(message)}</p>
+    ${button(appUrl, disguised ? 'Open the app' : 'Open the tracker')}`,
+  `You get these because email reminders are on in your settings. <a href="${escapeHtml(unsubscribeUrl)}" style="color:#6b7280">Unsubscribe</a>`)
+
+  return { subject, text, html }
+}
+
+/**
+ * Small web page for the verify and unsubscribe links
+ * @param {string} title
+ * @param {string} message
+ * @param {string} [formAction] - When set, shows a button that posts to this URL
+ * @param {string} [formLabel]
+ */
+export function renderPage(title, message, formAction, formLabel) {
+  const form = formAction
+    ? `<form method="post" action="${escapeHtml(formAction)}"><button type="submit" style="background:${BRAND_COLOR};color:#ffffff;border:0;padding:10px 16px;font-weight:bold;cursor:pointer">${escapeHtml(formLabel)}</button></form>`
+    : ''
+  return layout(title, `<p>${escapeHtml(message)}</p>${form}`)
+}
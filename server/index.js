@@ -0,0 +1,190 @@
+import { createServer } from 'node:http'
+import { openDatabase } from './db.js'
+import { createAuth, HttpError } from './auth.js'
+import { createSync } from './sync.js'
+import { getSmtpConfig } from './smtp.js'
+import { createEmail } from './email.js'
+import { createReminders } from './reminders.js'
+import { renderPage } from './emailTemplates.js'
+
+const PORT = Number(process.env.PORT) || 8787
+const CORS_ORIGIN = process.env.CORS_ORIGIN || 'http://localhost:3000'
+const MAX_BODY_BYTES = 1024 * 1024
+const MAIL_FROM = process.env.MAIL_FROM || 'EstroPad Tracker <reminders@localhost>'
+const PUBLIC_API_URL = (process.env.PUBLIC_API_URL || `http://localhost:${PORT}`).replace(/\/+$/, '')
+const APP_URL = process.env.APP_URL || CORS_ORIGIN
+const REMINDER_INTERVAL_MS = Number(process.env.REMINDER_INTERVAL_MS) || 60 * 1000
+
+const db = await openDatabase()
+const auth = createAuth(db)
+const sync = createSync(db)
+const email = createEmail(db, { smtp: getSmtpConfig(), from: MAIL_FROM, publicUrl: PUBLIC_API_URL, appUrl: APP_URL })
+const reminders = createReminders(db, email)
+
+// Read the request body as text, up to the size limit
+async function readBody(req) {
+  let size = 0
+  const chunks = []
+
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body is too large')
+    }
+    chunks.push(chunk)
+  }
+
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+async function readJson(req) {
+  try {
+    return JSON.parse((await readBody(req)) || '{}')
+  } catch (error) {
+    if (error instanceof HttpError) throw error
+    throw new HttpError(400, 'Request body must be JSON')
+  }
+}
+
+function send(res, status, body, contentType = 'application/json') {
+  res.writeHead(status, { 'Content-Type': contentType })
+  res.end(contentType === 'application/json' ? JSON.stringify(body) : body)
+}
+
+// Route table: "METHOD /path" to handler. A :name segment matches a path part and is passed in params.
+const routes = {
+  'POST /auth/register': async req => auth.register(await readJson(req)),
+  'POST /auth/login': async req => auth.login(await readJson(req)),
+  'POST /auth/refresh': async req => auth.refresh(await readJson(req)),
+  'POST /auth/logout': async req => {
+    await auth.logout(await readJson(req))
+    return {}
+  },
+  'GET /auth/me': async req => ({ user: auth.toUser(auth.authenticate(req.headers.authorization)) }),
+  'POST /auth/password': async req => {
+    const user = auth.authenticate(req.headers.authorization)
+    return auth.changePassword(user, await readJson(req))
+  },
+
+  // Calendar feeds: the owner uploads, anyone with the secret URL reads
+  'PUT /calendar/:token.ics': async (req, res, { token }) => {
+    const user = auth.authenticate(req.headers.authorization)
+    const existing = db.data.calendars[token]
+
+    if (existing && existing.userId !== user.id) {
+      throw new HttpError(403, 'This feed belongs to another account')
+    }
+
+    db.data.calendars[token] = { userId: user.id, body: await readBody(req), updatedAt: new Date().toISOString() }
+    await db.save()
+    return {}
+  },
+  'GET /calendar/:token.ics': async (req, res, { token }) => {
+    const feed = db.data.calendars[token]
+    if (!feed) {
+      throw new HttpError(404, 'Feed not found')
+    }
+    send(res, 200, feed.body, 'text/calendar; charset=utf-8')
+  },
+
+  // Synced collections: pull changes since a revision, push changes made from one
+  'GET /sync/:collection': async (req, res, { collection }, url) => {
+    const user = auth.authenticate(req.headers.authorization)
+    return sync.getChanges(user, collection, Number(url.searchParams.get('since')) || 0)
+  },
+  'POST /sync/:collection': async (req, res, { collection }) => {
+    const user = auth.authenticate(req.headers.authorization)
+    return sync.applyChanges(user, collection, await readJson(req))
+  },
+
+  // Email reminders: the app uploads its schedule and the server sends the emails
+  'PUT /reminders': async req => {
+    const user = auth.authenticate(req.headers.authorization)
+    await reminders.saveSettings(user, await readJson(req))
+    return {}
+  },
+  'GET /email/status': async req => email.getStatus(auth.authenticate(req.headers.authorization)),
+  'POST /email/verification': async req => {
+    const user = auth.authenticate(req.headers.authorization)
+    return email.requestVerification(user, await readJson(req))
+  },
+  'GET /email/log': async req => ({ entries: email.getLog(auth.authenticate(req.headers.authorization)) }),
+
+  // Links from emails, opened in a browser
+  'GET /email/verify': async (req, res, params, url) => {
+    const page = await email.verify(url.searchParams.get('token'))
+      ? renderPage('Email confirmed', 'Patch change reminders will now be sent to this address.')
+      : renderPage('Link expired', 'This confirmation link is invalid or has expired. Send a new one from Settings in the tracker.')
+    send(res, 200, page, 'text/html; charset=utf-8')
+  },
+  // Shows a button rather than unsubscribing, since mail scanners follow links
+  'GET /email/unsubscribe': async (req, res, params, url) => {
+    const action = `${PUBLIC_API_URL}/email/unsubscribe?token=${encodeURIComponent(url.searchParams.get('token') || '')}`
+    send(res, 200, renderPage('Unsubscribe', 'Stop sending medication reminders to this address?', action, 'Unsubscribe'), 'text/html; charset=utf-8')
+  },
+  // Also the one-click unsubscribe from the List-Unsubscribe-Post header
+  'POST /email/unsubscribe': async (req, res, params, url) => {
+    const page = await email.unsubscribe(url.searchParams.get('token'))
+      ? renderPage('Unsubscribed', 'You won\'t get any more reminder emails. Confirm your address again in Settings to turn them back on.')
+      : renderPage('Link not recognised', 'This unsubscribe link is invalid.')
+    send(res, 200, page, 'text/html; charset=utf-8')
+  }
+}
+
+// Routes as regular expressions, e.g. "/sync/:collection" matches "/sync/medications"
+const compiledRoutes = Object.entries(routes).map(([route, handler]) => {
+  const [method, path] = route.split(' ')
+  const source = path
+    .replace(/[.]/g, '\\.')
+    .replace(/:(\w+)/g, '(?<$1>[\\w-]+)')
+  return { method, pattern: new RegExp(`^${source}$`), handler }
+})
+
+// Find the handler for a request, with the parameters from its path
+function matchRoute(method, pathname) {
+  for (const route of compiledRoutes) {
+    const match = route.method === method && route.pattern.exec(pathname)
+    if (match) {
+      return [route.handler, { ...match.groups }]
+    }
+  }
+  return null
+}
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN)
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS')
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204)
+    res.end()
+    return
+  }
+
+  const url = new URL(req.url, 'http://localhost')
+  const { pathname } = url
+  const route = matchRoute(req.method, pathname)
+
+  try {
+    if (!route) {
+      throw new HttpError(404, 'Not found')
+    }
+
+    const [handler, params] = route
+    const result = await handler(req, res, params, url)
+    if (!res.headersSent) {
+      send(res, 200, result)
+    }
+  } catch (error) {
+    if (!(error instanceof HttpError)) {
+      console.error(`${req.method} ${pathname} failed:`, error)
+    }
+    send(res, error.status || 500, { error: error instanceof HttpError ? error.message : 'Internal server error' })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`API listening on http://localhost:${PORT} (data in ${db.file})`)
+  reminders.startWorker(REMINDER_INTERVAL_MS)
+})
@@ -0,0 +1,125 @@
+import { createServer } from 'node:net'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+// A minimal SMTP server for development. It accepts every message, prints a summary and
+// saves it as an .eml file instead of delivering it.
+
+const PORT = Number(process.env.SMTP_PORT) || 1025
+const MAIL_DIR = process.env.MAIL_DIR || resolve(dirname(fileURLToPath(import.meta.url)), 'data/mail')
+
+// A header value from a raw message, e.g. "Subject"
+function readHeader(message, name) {
+  const headers = message.split(/\r?\n\r?\n/)[0]
+  const match = new RegExp(`^${name}: (.*)$`, 'mi').exec(headers)
+  if (!match) return ''
+
+  // Decode RFC 2047 "=?UTF-8?B?...?=" words
+  return match[1].replace(/=\?UTF-8\?B\?([^?]+)\?=/gi, (_, encoded) => Buffer.from(encoded, 'base64').toString('utf8'))
+}
+
+async function saveMessage(mailDir, envelope, message) {
+  await mkdir(mailDir, { recursive: true })
+  const file = resolve(mailDir, `${new Date().toISOString().replace(/[:.]/g, '-')}.eml`)
+  await writeFile(file, message)
+
+  console.log(`Mail to ${envelope.to.join(', ')}: ${readHeader(message, 'Subject')}`)
+  console.log(`  saved to ${file}`)
+}
+
+/**
+ * An SMTP server that saves every message it receives as an .eml file in mailDir
+ * @param {string} mailDir
+ * @returns {import('node:net').Server} Not listening yet
+ */
+export function createMailCatcher(mailDir = MAIL_DIR) {
+  return createServer(socket => {
+    let buffer = ''
+    let envelope = { from: '', to: [] }
+    let dataLines = null // Lines of the message while reading DATA
+
+    function reply(line) {
+      socket.write(`${line}\r\n`)
+    }
+
+    function handleCommand(line) {
+      const [verb] = line.split(' ')
+
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          reply('250-localhost')
+          reply('250 8BITMIME')
+          break
+        case 'HELO':
+          reply('250 localhost')
+          break
+        case 'MAIL':
+          envelope = { from: line.slice(10).trim(), to: [] }
+          reply('250 OK')
+          break
+        case 'RCPT':
+          envelope.to.push(line.slice(8).trim().replace(/^<|>$/g, ''))
+          reply('250 OK')
+          break
+        case 'DATA':
+          dataLines = []
+          reply('354 End data with <CR><LF>.<CR><LF>')
+          break
+        case 'RSET':
+          envelope = { from: '', to: [] }
+          reply('250 OK')
+          break
+        case 'NOOP':
+          reply('250 OK')
+          break
+        case 'QUIT':
+          reply('221 Bye')
+          socket.end()
+          break
+        default:
+          reply('502 Command not implemented')
+      }
+    }
+
+    function handleDataLine(line) {
+      if (line !== '.') {
+        // Undo the sender's doubling of leading dots
+        dataLines.push(line.startsWith('.') ? line.slice(1) : line)
+        return
+      }
+
+      const message = dataLines.join('\r\n')
+      const current = envelope
+      dataLines = null
+      envelope = { from: '', to: [] }
+
+      saveMessage(mailDir, current, message)
+        .then(() => reply('250 OK: message saved'))
+        .catch(error => {
+          console.error('Saving mail failed:', error)
+          reply('451 Could not save message')
+        })
+    }
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8')
+      let index
+      while ((index = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, index).replace(/\r$/, '')
+        buffer = buffer.slice(index + 1)
+        dataLines ? handleDataLine(line) : handleCommand(line)
+      }
+    })
+    socket.on('error', () => {})
+
+    reply('220 localhost mail catcher')
+  })
+}
+
+// Run with "npm run mail-catcher"
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  createMailCatcher().listen(PORT, () => {
+    console.log(`Mail catcher listening on localhost:${PORT} (saving to ${MAIL_DIR})`)
+  })
+}
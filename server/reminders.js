@@ -0,0 +1,166 @@
+import { HttpError } from './auth.js'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// A heads-up held by quiet hours still goes out this long after the due time
+const REMINDER_GRACE_MS = HOUR_MS
+
+// An escalation the worker missed (e.g. the server was down) is dropped after this long
+const ESCALATION_GRACE_MS = 24 * HOUR_MS
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+const DELIVERY_KINDS = ['patch', 'pill', 'injection', 'gel', 'sublingual']
+
+// Reminders from before other medications were tracked are patch changes with a patchName and changeAt
+function normalizeReminder(reminder) {
+  if (!reminder || reminder.dueAt !== undefined || reminder.changeAt === undefined) return reminder
+  return { id: reminder.id, name: reminder.patchName, deliveryKind: 'patch', dueAt: reminder.changeAt }
+}
+
+function isValidTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Minutes past midnight at a time in a time zone
+function getLocalMinutes(ms, timeZone) {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(new Date(ms))
+  const hour = Number(parts.find(part => part.type === 'hour').value)
+  const minute = Number(parts.find(part => part.type === 'minute').value)
+  return hour * 60 + minute
+}
+
+function toMinutes(time) {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Same rules as isInQuietHours in src/utils/reminders.ts, in the user's time zone
+function isInQuietHours(ms, timeZone, start, end) {
+  const now = getLocalMinutes(ms, timeZone)
+  const from = toMinutes(start)
+  const to = toMinutes(end)
+
+  if (from === to) return false
+  return from < to ? now >= from && now < to : now >= from || now < to
+}
+
+/**
+ * Email reminders sent from the server, from the schedule and preferences each user's app uploads
+ * @param {{ data: object, save: () => Promise<void> }} db
+ * @param {ReturnType<import('./email.js').createEmail>} email
+ */
+export function createReminders(db, email) {
+  // Store what the app sent: its preferences, time zone and open reminders
+  async function saveSettings(user, { preferences, timeZone, reminders }) {
+    const validPreferences = preferences &&
+      typeof preferences.enableEmailNotifications === 'boolean' &&
+      typeof preferences.emailAddress === 'string' &&
+      Number.isFinite(preferences.notifyBeforeHours) &&
+      Number.isFinite(preferences.escalateAfterHours) &&
+      typeof preferences.quietHoursEnabled === 'boolean' &&
+      TIME_PATTERN.test(preferences.quietHoursStart) &&
+      TIME_PATTERN.test(preferences.quietHoursEnd) &&
+      (preferences.disguised === undefined || typeof preferences.disguised === 'boolean')
+    const validReminders = Array.isArray(reminders) && reminders.map(normalizeReminder).every(reminder => {
+      return reminder && typeof reminder.id === 'string' && typeof reminder.name === 'string' &&
+        (reminder.deliveryKind === undefined || DELIVERY_KINDS.includes(reminder.deliveryKind)) &&
+        Number.isFinite(reminder.dueAt)
+    })
+
+    if (!validPreferences || !validReminders || typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+      throw new HttpError(400, 'Invalid reminder settings')
+    }
+
+    db.data.reminders[user.id] = {
+      preferences: {
+        enableEmailNotifications: preferences.enableEmailNotifications,
+        emailAddress: preferences.emailAddress,
+        notifyBeforeHours: preferences.notifyBeforeHours,
+        escalateAfterHours: preferences.escalateAfterHours,
+        quietHoursEnabled: preferences.quietHoursEnabled,
+        quietHoursStart: preferences.quietHoursStart,
+        quietHoursEnd: preferences.quietHoursEnd,
+        disguised: preferences.disguised === true
+      },
+      timeZone,
+      reminders: reminders.map(normalizeReminder).map(({ id, name, deliveryKind = 'patch', dueAt }) => ({ id, name, deliveryKind, dueAt })),
+      updatedAt: new Date().toISOString()
+    }
+    await db.save()
+  }
+
+  // Emails a reminder should have had by now. Keys include the due time, so a
+  // rescheduled change or dose gets its own emails.
+  function getDueEmails(settings, reminder, nowMs) {
+    const { notifyBeforeHours, escalateAfterHours, quietHoursEnabled, quietHoursStart, quietHoursEnd } = settings.preferences
+    const due = []
+
+    // The heads-up waits for quiet hours to end, but not past the due time itself
+    const notifyAtMs = reminder.dueAt - notifyBeforeHours * HOUR_MS
+    const quiet = quietHoursEnabled && isInQuietHours(nowMs, settings.timeZone, quietHoursStart, quietHoursEnd)
+    if (nowMs >= notifyAtMs && nowMs < reminder.dueAt + REMINDER_GRACE_MS && (!quiet || nowMs >= reminder.dueAt)) {
+      due.push({ kind: 'reminder', key: `${reminder.id}:${reminder.dueAt}:reminder` })
+    }
+
+    const escalateAtMs = reminder.dueAt + escalateAfterHours * HOUR_MS
+    if (nowMs >= escalateAtMs && nowMs < escalateAtMs + ESCALATION_GRACE_MS) {
+      due.push({ kind: 'escalation', key: `${reminder.id}:${reminder.dueAt}:escalation` })
+    }
+
+    return due
+  }
+
+  // Send every email that is due
+  async function sendDueEmails(nowMs = Date.now()) {
+    for (const [userId, settings] of Object.entries(db.data.reminders)) {
+      const user = db.data.users.find(item => item.id === userId)
+      const { enableEmailNotifications, emailAddress } = settings.preferences
+
+      if (!user || !enableEmailNotifications || !email.canEmail(userId, emailAddress)) continue
+
+      for (const reminder of settings.reminders.map(normalizeReminder)) {
+        for (const { kind, key } of getDueEmails(settings, reminder, nowMs)) {
+          if (email.shouldSendReminder(key)) {
+            await email.sendReminder(user, settings, reminder, kind, key)
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Check for due emails on an interval
+   * @param {number} intervalMs
+   * @returns {() => void} Stops the worker
+   */
+  function startWorker(intervalMs) {
+    let running = false
+
+    async function tick() {
+      // Skip a tick rather than send twice when the last one is still going
+      if (running) return
+      running = true
+
+      try {
+        await sendDueEmails()
+      } catch (error) {
+        console.error('Reminder worker failed:', error)
+      } finally {
+        running = false
+      }
+    }
+
+    const intervalId = setInterval(tick, intervalMs)
+    tick()
+    return () => clearInterval(intervalId)
+  }
+
+  return { saveSettings, sendDueEmails, startWorker }
+}
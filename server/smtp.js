@@ -0,0 +1,216 @@
+import { connect as connectTcp } from 'node:net'
+import { connect as connectTls } from 'node:tls'
+import { randomUUID } from 'node:crypto'
+
+const TIMEOUT_MS = 30 * 1000
+
+// The SMTP server refused a command or the connection failed
+export class SmtpError extends Error {
+  constructor(message, code) {
+    super(message)
+    this.code = code
+  }
+}
+
+/**
+ * SMTP settings from the environment. The defaults suit a local mail catcher (npm run mail-catcher).
+ */
+export function getSmtpConfig(env = process.env) {
+  return {
+    host: env.SMTP_HOST || 'localhost',
+    port: Number(env.SMTP_PORT) || 1025,
+    secure: env.SMTP_SECURE === 'true', // TLS from the start, usually port 465
+    starttls: env.SMTP_STARTTLS === 'true', // Upgrade to TLS after connecting, usually port 587
+    user: env.SMTP_USER || '',
+    pass: env.SMTP_PASS || '',
+    clientName: env.SMTP_CLIENT_NAME || 'localhost'
+  }
+}
+
+// Line-based connection that reads one (possibly multi-line) reply per command
+function openConnection(config) {
+  return new Promise((resolve, reject) => {
+    let socket
+    let buffer = ''
+    let replyLines = []
+    const replies = []
+    const waiting = []
+    // Why the connection ended, so reads made after it fail instead of waiting forever
+    let failure = null
+
+    function onData(chunk) {
+      buffer += chunk.toString('utf8')
+      let index
+      while ((index = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, index).replace(/\r$/, '')
+        buffer = buffer.slice(index + 1)
+        replyLines.push(line.slice(4))
+
+        // "250-..." continues a reply, "250 ..." ends it
+        if (/^\d{3}(?: |$)/.test(line)) {
+          const reply = { code: Number(line.slice(0, 3)), lines: replyLines }
+          replyLines = []
+          const waiter = waiting.shift()
+          waiter ? waiter.resolve(reply) : replies.push(reply)
+        }
+      }
+    }
+
+    function onError(error) {
+      failure ??= error instanceof SmtpError ? error : new SmtpError(`SMTP connection failed: ${error.message}`)
+      for (const waiter of waiting.splice(0)) {
+        waiter.reject(failure)
+      }
+      reject(failure)
+    }
+
+    function attach(next) {
+      socket = next
+      socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new SmtpError('SMTP server timed out')))
+      socket.on('data', onData)
+      socket.on('error', onError)
+      socket.on('close', () => onError(new SmtpError('SMTP connection closed')))
+    }
+
+    function readReply() {
+      if (replies.length) return Promise.resolve(replies.shift())
+      if (failure) return Promise.reject(failure)
+      return new Promise((resolveReply, rejectReply) => waiting.push({ resolve: resolveReply, reject: rejectReply }))
+    }
+
+    const connection = {
+      // Send a line and check the reply code
+      async command(line, expected) {
+        if (line !== null) socket.write(`${line}\r\n`)
+        const reply = await readReply()
+        const codes = Array.isArray(expected) ? expected : [expected]
+        if (!codes.includes(reply.code)) {
+          throw new SmtpError(`SMTP server replied ${reply.code} ${reply.lines.join(' ')}`, reply.code)
+        }
+        return reply
+      },
+      // Switch the connection to TLS after STARTTLS
+      upgrade() {
+        return new Promise((resolveUpgrade, rejectUpgrade) => {
+          socket.removeAllListeners('data')
+          socket.removeAllListeners('close')
+          socket.removeAllListeners('error')
+          const secure = connectTls({ socket, servername: config.host }, () => resolveUpgrade())
+          secure.once('error', rejectUpgrade)
+          attach(secure)
+        })
+      },
+      close() {
+        socket.removeAllListeners('close')
+        socket.end()
+      }
+    }
+
+    const raw = config.secure
+      ? connectTls({ host: config.host, port: config.port, servername: config.host }, () => resolve(connection))
+      : connectTcp({ host: config.host, port: config.port }, () => resolve(connection))
+    attach(raw)
+  })
+}
+
+// Remove line breaks so values can't add headers
+function headerValue(value) {
+  return String(value).replace(/[\r\n]+/g, ' ')
+}
+
+// RFC 2047 encoding for headers that aren't plain ASCII
+function encodeHeader(value) {
+  const clean = headerValue(value)
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean).toString('base64')}?=`
+}
+
+function base64Lines(text) {
+  return Buffer.from(text, 'utf8').toString('base64').replace(/.{1,76}/g, '$&\r\n')
+}
+
+// The bare address from "Name <address>"
+function addressOf(mailbox) {
+  const match = /<([^>]+)>/.exec(mailbox)
+  return headerValue(match ? match[1] : mailbox).trim()
+}
+
+/**
+ * Build a multipart message with plain text and HTML versions
+ * @returns {{ messageId: string, data: string }}
+ */
+export function buildMessage({ from, to, subject, text, html, headers = {} }) {
+  const boundary = `=_${randomUUID()}`
+  const domain = addressOf(from).split('@')[1] || 'localhost'
+  const messageId = `<${randomUUID()}@${domain}>`
+
+  const lines = [
+    `From: ${headerValue(from)}`,
+    `To: ${headerValue(to)}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${headerValue(value)}`),
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(html),
+    `--${boundary}--`
+  ]
+
+  return { messageId, data: lines.join('\r\n') }
+}
+
+/**
+ * Send one email over SMTP
+ * @param {ReturnType<typeof getSmtpConfig>} config
+ * @param {{ from: string, to: string, subject: string, text: string, html: string, headers?: object }} message
+ * @returns {Promise<{ messageId: string, response: string }>} The server's reply to the message
+ */
+export async function sendMail(config, message) {
+  const { messageId, data } = buildMessage(message)
+  const connection = await openConnection(config)
+
+  try {
+    await connection.command(null, 220)
+    let ehlo = await connection.command(`EHLO ${config.clientName}`, 250)
+
+    if (config.starttls && !config.secure) {
+      await connection.command('STARTTLS', 220)
+      await connection.upgrade()
+      ehlo = await connection.command(`EHLO ${config.clientName}`, 250)
+    }
+
+    if (config.user) {
+      const authLine = ehlo.lines.find(line => /^AUTH\b/i.test(line)) || ''
+      if (/\bPLAIN\b/i.test(authLine)) {
+        const credentials = Buffer.from(`\0${config.user}\0${config.pass}`).toString('base64')
+        await connection.command(`AUTH PLAIN ${credentials}`, 235)
+      } else {
+        await connection.command('AUTH LOGIN', 334)
+        await connection.command(Buffer.from(config.user).toString('base64'), 334)
+        await connection.command(Buffer.from(config.pass).toString('base64'), 235)
+      }
+    }
+
+    await connection.command(`MAIL FROM:<${addressOf(message.from)}>`, 250)
+    await connection.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251])
+    await connection.command('DATA', 354)
+
+    // Lines starting with a dot are doubled so they aren't read as the end of the message
+    const reply = await connection.command(`${data.replace(/^\./gm, '..')}\r\n.`, 250)
+    await connection.command('QUIT', 221).catch(() => {})
+
+    return { messageId, response: `${reply.code} ${reply.lines.join(' ')}` }
+  } finally {
+    connection.close()
+  }
+}
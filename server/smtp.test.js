@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { connect, createServer } from 'node:net'
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createMailCatcher } from './mailCatcher.js'
+import { getSmtpConfig, sendMail, SmtpError } from './smtp.js'
+
+// Start a server on a free port and return the SMTP settings to reach it
+function listen(server) {
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve(getSmtpConfig({ SMTP_HOST: '127.0.0.1', SMTP_PORT: String(server.address().port) })))
+  })
+}
+
+function close(server) {
+  return new Promise(resolve => server.close(() => resolve()))
+}
+
+// The decoded plain text part of a message built by buildMessage
+function readTextPart(message) {
+  const [, part] = message.split('Content-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: base64\r\n\r\n')
+  return Buffer.from(part.split('\r\n--')[0], 'base64').toString('utf8')
+}
+
+describe('sendMail', () => {
+  let dir
+  let servers
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'estropad-mail-'))
+    servers = []
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    await Promise.all(servers.map(close))
+    await rm(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  async function start(server) {
+    servers.push(server)
+    return listen(server)
+  }
+
+  it('delivers a message to the mail catcher', async () => {
+    const config = await start(createMailCatcher(dir))
+    const text = 'Time to change your patch.\n.\n.hidden line\nSee you next week.'
+
+    const result = await sendMail(config, {
+      from: 'Tracker <tracker@example.com>',
+      to: 'someone@example.com',
+      subject: 'Patch change due',
+      text,
+      html: '<p>Time to change your patch.</p>'
+    })
+
+    expect(result.response).toBe('250 OK: message saved')
+    const [file] = await readdir(dir)
+    const message = await readFile(join(dir, file), 'utf8')
+    expect(message).toContain(`Message-ID: ${result.messageId}`)
+    expect(message).toContain('Subject: Patch change due')
+    expect(readTextPart(message)).toBe(text)
+  })
+
+  it('undoes doubled leading dots in the message', async () => {
+    const config = await start(createMailCatcher(dir))
+    const lines = []
+
+    // Talk to the catcher directly, since sendMail only sends base64 bodies
+    await new Promise((resolve, reject) => {
+      const client = connect({ host: config.host, port: config.port })
+      const script = ['EHLO test', 'MAIL FROM:<a@example.com>', 'RCPT TO:<b@example.com>', 'DATA', 'Subject: Dots\r\n\r\n..leading dot\r\nplain\r\n.', 'QUIT']
+      let buffer = ''
+
+      // Send the next command after each complete reply
+      client.on('data', chunk => {
+        buffer += chunk.toString('utf8')
+        let index
+        while ((index = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, index).replace(/\r$/, '')
+          buffer = buffer.slice(index + 1)
+          lines.push(line)
+          if (/^\d{3} /.test(line) && script.length) client.write(`${script.shift()}\r\n`)
+        }
+      })
+      client.on('close', resolve)
+      client.on('error', reject)
+    })
+
+    expect(lines.at(-1)).toBe('221 Bye')
+    const [file] = await readdir(dir)
+    expect(await readFile(join(dir, file), 'utf8')).toBe('Subject: Dots\r\n\r\n.leading dot\r\nplain')
+  })
+
+  it('fails instead of waiting when the server closes the connection', async () => {
+    // Greets, then hangs up before answering EHLO. Reading what arrives lets the socket finish closing.
+    const config = await start(createServer(socket => {
+      socket.resume()
+      socket.end('220 localhost\r\n')
+    }))
+
+    const sending = sendMail(config, {
+      from: 'tracker@example.com',
+      to: 'someone@example.com',
+      subject: 'Patch change due',
+      text: 'Hello',
+      html: '<p>Hello</p>'
+    })
+
+    await expect(sending).rejects.toBeInstanceOf(SmtpError)
+  })
+})
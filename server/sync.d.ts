@@ -0,0 +1,30 @@
+// Types for sync.js, for the client tests that run against it
+
+type SyncRecord = { id: string } & Record<string, unknown>
+
+export interface SyncChange {
+  id: string
+  baseRevision: number // Revision the change was made from, 0 for a new record
+  record: SyncRecord | null // Null deletes the record
+}
+
+export interface SyncResult {
+  id: string
+  status: 'applied' | 'conflict'
+  revision: number
+  record?: SyncRecord | null // The server copy, sent with conflicts
+}
+
+export interface Sync {
+  getChanges(user: { id: string }, name: string, since: number): {
+    revision: number
+    changes: { id: string, revision: number, record: SyncRecord | null }[]
+  }
+  applyChanges(user: { id: string }, name: string, body: { changes: SyncChange[] }): Promise<{ results: SyncResult[] }>
+}
+
+/**
+ * Record-by-record sync of each user's collections
+ * @param db The database from openDatabase
+ */
+export function createSync(db: { data: { sync: object }, save: () => Promise<void> }): Sync
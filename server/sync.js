@@ -0,0 +1,94 @@
+import { HttpError } from './auth.js'
+
+const COLLECTION_PATTERN = /^[\w-]{1,64}$/
+const MAX_CHANGES = 1000 // Per request. Must match src/utils/sync.ts.
+
+// JSON with object keys in a fixed order, so equal records compare equal. Must match src/utils/sync.ts.
+function stableStringify(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// A table keyed by names or IDs sent by clients, without a prototype so that one named
+// __proto__ is just another entry. Tables read back from the data file are copied into one.
+function toTable(object) {
+  if (object && Object.getPrototypeOf(object) === null) return object
+  return Object.assign(Object.create(null), object)
+}
+
+/**
+ * Record-by-record sync of each user's collections. Every accepted change gets the next
+ * revision number of its collection; deleted records are kept as tombstones so other
+ * devices hear about the deletion.
+ * @param {{ data: object, save: () => Promise<void> }} db
+ */
+export function createSync(db) {
+  function getCollection(userId, name) {
+    if (!COLLECTION_PATTERN.test(name)) {
+      throw new HttpError(400, 'Invalid collection name')
+    }
+
+    const collections = db.data.sync[userId] = toTable(db.data.sync[userId])
+    const collection = collections[name] ??= { revision: 0, records: null }
+    collection.records = toTable(collection.records)
+    return collection
+  }
+
+  // Records changed after a revision
+  function getChanges(user, name, since) {
+    const collection = getCollection(user.id, name)
+    const changes = Object.entries(collection.records)
+      .filter(([, entry]) => entry.revision > since)
+      .map(([id, entry]) => ({ id, revision: entry.revision, record: entry.record }))
+      .sort((a, b) => a.revision - b.revision)
+
+    return { revision: collection.revision, changes }
+  }
+
+  // Apply changes made from a known revision. A record changed since then is a conflict
+  // unless both sides ended up the same.
+  async function applyChanges(user, name, { changes }) {
+    if (!Array.isArray(changes) || changes.length > MAX_CHANGES) {
+      throw new HttpError(400, `Send between 0 and ${MAX_CHANGES} changes`)
+    }
+
+    const collection = getCollection(user.id, name)
+    const results = []
+
+    for (const change of changes) {
+      const { id, baseRevision, record } = change ?? {}
+      const validRecord = record === null || (record && typeof record === 'object' && record.id === id)
+
+      if (typeof id !== 'string' || typeof baseRevision !== 'number' || !validRecord) {
+        throw new HttpError(400, 'Each change needs an id, a baseRevision and a record with that id (or null)')
+      }
+
+      const current = collection.records[id]
+      const currentRecord = current?.record ?? null
+      const currentRevision = current?.revision ?? 0
+
+      if (stableStringify(currentRecord) === stableStringify(record)) {
+        results.push({ id, status: 'applied', revision: currentRevision })
+      } else if (baseRevision === currentRevision) {
+        collection.revision++
+        collection.records[id] = { revision: collection.revision, record }
+        results.push({ id, status: 'applied', revision: collection.revision })
+      } else {
+        results.push({ id, status: 'conflict', revision: currentRevision, record: currentRecord })
+      }
+    }
+
+    await db.save()
+    return { results }
+  }
+
+  return { getChanges, applyChanges }
+}
@@ -1,5 +1,7 @@
 import { createRouter, createWebHistory } from 'vue-router'
 import type { RouteRecordRaw } from 'vue-router'
+import { useAuthStore } from '@/stores/auth'
+import { usePrivacyStore } from '@/stores/privacy'
 
 const routes: RouteRecordRaw[] = [
   {
@@ -24,9 +26,32 @@ const routes: RouteRecordRaw[] = [
     meta: { requiresAuth: true }
   },
   {
+    path: '/medications',
+    name: 'Medications',
+    component: () => import('@/views/MedicationsView.vue'),
+    meta: { requiresAuth: true }
+  },
+  {
+    // Bookmarks from before other medications were tracked
     path: '/patches',
-    name: 'Patches',
-    component: () => import('@/views/PatchesView.vue'),
+    redirect: '/medications'
+  },
+  {
+    path: '/adherence',
+    name: 'Adherence',
+    component: () => import('@/views/AdherenceView.vue'),
+    meta: { requiresAuth: true }
+  },
+  {
+    path: '/reactions',
+    name: 'Reactions',
+    component: () => import('@/views/ReactionsView.vue'),
+    meta: { requiresAuth: true }
+  },
+  {
+    path: '/labs',
+    name: 'Labs',
+    component: () => import('@/views/LabsView.vue'),
     meta: { requiresAuth: true }
   },
   {
@@ -48,12 +73,14 @@ const router = createRouter({
 })
 
 // Navigation guard for authenticated routes
-router.beforeEach((to, from, next) => {
+router.beforeEach(async (to, from, next) => {
+  // Nothing stored can be read until the app is unlocked
+  await usePrivacyStore().untilUnlocked()
+
   const requiresAuth = to.matched.some(record => record.meta.requiresAuth)
-  const isAuthenticated = localStorage.getItem('user') !== null
   
-  if (requiresAuth && !isAuthenticated) {
-    next({ name: 'Login' })
+  if (requiresAuth && !(await useAuthStore().ensureSession())) {
+    next({ name: 'Login', query: { redirect: to.fullPath } })
   } else {
     next()
   }
@@ -1,92 +1,164 @@
 import { defineStore } from 'pinia'
-import { ref } from 'vue'
+import { ref, computed, watch, nextTick } from 'vue'
+import { useStorage, StorageSerializers } from '@vueuse/core'
+import { getAuthBackend, SessionExpiredError, type AuthSession } from '@/utils/auth'
+import { setStorageUser, clearUserStorage } from '@/utils/userStorage'
+import { secureStorage } from '@/utils/secureStorage'
 
-interface User {
-  id: string
-  username: string
-  email: string
-}
+// Refresh the access token this long before it expires
+const REFRESH_MARGIN_MS = 60 * 1000
 
 export const useAuthStore = defineStore('auth', () => {
-  const user = ref<User | null>(null)
+  const backend = getAuthBackend()
+
+  // Signed-in session (persistent)
+  const session = useStorage<AuthSession | null>('auth-session', null, secureStorage, { serializer: StorageSerializers.object })
   const isLoading = ref(false)
   const error = ref<string | null>(null)
 
+  // Whether the backend has confirmed the session since the app started
+  let sessionConfirmed = false
+
+  // Refresh in progress, shared so tokens are only rotated once
+  let refreshing: Promise<void> | null = null
+
+  const user = computed(() => session.value?.user ?? null)
+
+  // Show the signed-in account's data, and nobody else's
+  watch(() => user.value?.id ?? null, setStorageUser, { immediate: true, flush: 'sync' })
+
   // Initialize user from localStorage
   function init() {
-    const storedUser = localStorage.getItem('user')
-    if (storedUser) {
-      user.value = JSON.parse(storedUser)
+    // Logins from before real accounts only stored the user; they aren't sessions
+    secureStorage.removeItem('user')
+  }
+
+  // Forget the session locally
+  function clearSession() {
+    session.value = null
+    sessionConfirmed = false
+  }
+
+  // Swap the refresh token for a new session
+  async function refreshSession() {
+    if (!refreshing) {
+      const current = session.value
+      refreshing = (async () => {
+        if (!current) throw new SessionExpiredError()
+        session.value = await backend.refresh(current)
+      })().finally(() => {
+        refreshing = null
+      })
     }
+
+    await refreshing
   }
 
-  // Login user
-  async function login(email: string, password: string) {
-    isLoading.value = true
-    error.value = null
-    
+  // Check there is a session the backend still accepts, refreshing it if needed
+  async function ensureSession() {
+    if (!session.value) return false
+
+    if (session.value.refreshTokenExpiresAt <= Date.now()) {
+      clearSession()
+      return false
+    }
+
     try {
-      // This would be an API call in a real application
-      // For demo purposes, we'll simulate a successful login
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      // Mock user data
-      const mockUser: User = {
-        id: '1',
-        username: email.split('@')[0],
-        email
+      if (session.value.accessTokenExpiresAt - REFRESH_MARGIN_MS <= Date.now()) {
+        await refreshSession()
       }
-      
-      user.value = mockUser
-      localStorage.setItem('user', JSON.stringify(mockUser))
+
+      if (!sessionConfirmed && session.value) {
+        const confirmedUser = await backend.validate(session.value)
+        session.value = { ...session.value, user: confirmedUser }
+        sessionConfirmed = true
+      }
+
+      return true
     } catch (err) {
-      error.value = 'Invalid email or password'
-      console.error('Login error:', err)
-    } finally {
-      isLoading.value = false
+      if (err instanceof SessionExpiredError) {
+        clearSession()
+        return false
+      }
+
+      // Offline or the server is down: trust the unexpired session until it can be checked
+      console.warn('Could not check session:', err)
+      return true
     }
   }
 
-  // Register user
-  async function register(username: string, email: string, password: string) {
+  // Current access token, refreshed if needed
+  async function getAccessToken() {
+    if (!(await ensureSession())) {
+      throw new SessionExpiredError()
+    }
+    return session.value!.accessToken
+  }
+
+  // Run an auth request, keeping the loading and error state in step
+  async function runAuthRequest(request: () => Promise<AuthSession>, fallbackMessage: string) {
     isLoading.value = true
     error.value = null
-    
+
     try {
-      // This would be an API call in a real application
-      // For demo purposes, we'll simulate a successful registration
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
-      // Mock user data
-      const mockUser: User = {
-        id: '1',
-        username,
-        email
-      }
-      
-      user.value = mockUser
-      localStorage.setItem('user', JSON.stringify(mockUser))
+      session.value = await request()
+      sessionConfirmed = true
     } catch (err) {
-      error.value = 'Registration failed'
-      console.error('Registration error:', err)
+      error.value = err instanceof Error ? err.message : fallbackMessage
+      throw err
     } finally {
       isLoading.value = false
     }
   }
 
-  // Logout user
-  function logout() {
-    user.value = null
-    localStorage.removeItem('user')
+  // Login user
+  async function login(email: string, password: string) {
+    await runAuthRequest(() => backend.login(email, password), 'Invalid email or password')
+  }
+
+  // Register user
+  async function register(username: string, email: string, password: string) {
+    await runAuthRequest(() => backend.register(username, email, password), 'Registration failed')
+  }
+
+  // Change the password; other sessions are signed out
+  async function changePassword(currentPassword: string, newPassword: string) {
+    await getAccessToken()
+    await runAuthRequest(() => backend.changePassword(session.value!, currentPassword, newPassword), 'Failed to change password')
+  }
+
+  // Logout user, optionally deleting their data from this device
+  async function logout(options: { wipeLocalData?: boolean } = {}) {
+    const current = session.value
+    clearSession()
+
+    if (current && options.wipeLocalData) {
+      // Wait for the stores to finish writing before deleting what they wrote
+      await nextTick()
+      clearUserStorage(current.user.id)
+    }
+
+    if (current) {
+      try {
+        await backend.logout(current)
+      } catch (err) {
+        // The session is already gone here; the server's copy will expire on its own
+        console.warn('Could not end session on the server:', err)
+      }
+    }
   }
 
   return {
     user,
+    session,
     isLoading,
     error,
     init,
+    ensureSession,
+    getAccessToken,
     login,
     register,
+    changePassword,
     logout
   }
-}) 
\ No newline at end of file
+})
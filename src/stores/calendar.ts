@@ -0,0 +1,288 @@
+import { defineStore } from 'pinia'
+import { computed, watch } from 'vue'
+import { watchDebounced } from '@vueuse/core'
+import { useMedicationsStore } from './medications'
+import { useNotificationsStore } from './notifications'
+import { usePrescriptionsStore } from './prescriptions'
+import { useAuthStore } from './auth'
+import { usePrivacyStore, DISGUISED_APP_NAME } from './privacy'
+import { buildCalendar, type CalendarEvent } from '@/utils/ical'
+import { downloadFile } from '@/utils/download'
+import { API_BASE_URL } from '@/utils/api'
+import { useUserStorage } from '@/utils/userStorage'
+
+// How far ahead changes are projected
+const CHANGE_HORIZON_DAYS = 60
+
+// How long removed or unapplied patches keep cancelling their old events
+const CANCEL_LOOKBACK_DAYS = 30
+
+// Sequence numbers count minutes from this point, so every export supersedes the last
+const SEQUENCE_EPOCH_MS = Date.UTC(2024, 0, 1)
+
+const UID_DOMAIN = 'lunas-estropad-tracker'
+
+// What the calendar says in disguised mode, so a shared or synced calendar gives nothing away
+const DISGUISED_CALENDAR = {
+  summary: 'Reminder',
+  productId: `-//${DISGUISED_APP_NAME}//Schedule//EN`,
+  uidDomain: 'planner.invalid',
+  fileName: 'schedule.ics'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const useCalendarStore = defineStore('calendar', () => {
+  const medicationsStore = useMedicationsStore()
+  const notificationsStore = useNotificationsStore()
+  const prescriptionsStore = usePrescriptionsStore()
+  const privacyStore = usePrivacyStore()
+
+  const disguised = computed(() => privacyStore.settings.disguised)
+
+  // Secret part of the feed URL (persistent)
+  const feedToken = useUserStorage<string>('calendar-feed-token', () => crypto.randomUUID())
+
+  // Day of each medication's last refill event, so cancelling it leaves it on that day (persistent)
+  const refillDates = useUserStorage<Record<string, number>>('calendar-refill-dates', {})
+
+  // Subscribable feed URL, when a backend is configured
+  const feedUrl = computed(() => {
+    return API_BASE_URL ? `${API_BASE_URL}/calendar/${feedToken.value}.ics` : null
+  })
+
+  // Feed URL with the webcal scheme, which calendar apps open as a subscription
+  const subscribeUrl = computed(() => feedUrl.value?.replace(/^https?:/, 'webcal:') ?? null)
+
+  // Stable ID of an event. Disguised, it is an opaque hash, since IDs name medications; calendar
+  // apps take the events as new ones, and a subscribed feed drops the old ones when it refreshes.
+  function getUid(name: string) {
+    if (!disguised.value) return `${name}@${UID_DOMAIN}`
+    
+    // FNV-1a
+    let hash = 0x811c9dc5
+    for (let i = 0; i < name.length; i++) {
+      hash ^= name.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return `${(hash >>> 0).toString(16)}@${DISGUISED_CALENDAR.uidDomain}`
+  }
+
+  // When to request a refill, so it arrives before the supply runs out
+  function getRefillAtMs(medicationId: string, runOutAt: Date, nowMs: number) {
+    const leadTimeDays = prescriptionsStore.getLeadTimeDays(medicationId)
+    return Math.max(nowMs, runOutAt.getTime() - leadTimeDays * DAY_MS)
+  }
+
+  // Stable ID of the nth scheduled change of an application (0 is its own change)
+  function getChangeUid(applicationId: string, index: number) {
+    return getUid(`change-${applicationId}-${index}`)
+  }
+
+  // What a change of a patch is called, which leaves out the medication in disguised mode
+  function getChangeSummary(name: string | undefined) {
+    return disguised.value ? DISGUISED_CALENDAR.summary : `Change patch: ${name || 'Patch'}`
+  }
+
+  // Scheduled change times of a patch within the horizon, starting at its own change
+  function getScheduledChanges(medicationId: string, changeAtMs: number, untilMs: number) {
+    const times = [changeAtMs]
+    let nextMs = medicationsStore.getNextChangeAfter(medicationId, changeAtMs)
+
+    // A patch without a wear time has no later changes
+    while (nextMs !== null && nextMs > times[times.length - 1] && nextMs <= untilMs) {
+      times.push(nextMs)
+      nextMs = medicationsStore.getNextChangeAfter(medicationId, nextMs)
+    }
+    return times
+  }
+
+  // Events for upcoming changes, refills, and cancellations of superseded changes
+  const events = computed<CalendarEvent[]>(() => {
+    const nowMs = Date.now()
+    const untilMs = nowMs + CHANGE_HORIZON_DAYS * DAY_MS
+    const lookbackMs = nowMs - CANCEL_LOOKBACK_DAYS * DAY_MS
+    const sequence = Math.floor((nowMs - SEQUENCE_EPOCH_MS) / 60000)
+    const alarmMinutesBefore = notificationsStore.preferences.notifyBeforeHours * 60
+    const result: CalendarEvent[] = []
+
+    // Upcoming changes of the patches being worn
+    for (const patch of medicationsStore.activePatches) {
+      const times = getScheduledChanges(patch.medicationId, patch.changeAt.getTime(), untilMs)
+
+      times.forEach((atMs, index) => {
+        if (index > 0 && atMs < nowMs) return
+
+        result.push({
+          uid: getChangeUid(patch.id, index),
+          start: new Date(atMs),
+          end: new Date(atMs + 15 * 60 * 1000),
+          summary: getChangeSummary(patch.medication?.name),
+          description: disguised.value
+            ? undefined
+            : index === 0
+              ? `Applied ${patch.appliedAt.toLocaleString()} on ${patch.location}`
+              : 'Projected from your current patch schedule',
+          sequence,
+          alarmMinutesBefore
+        })
+      })
+    }
+
+    // Patches taken off recently: keep a change that happened on schedule, cancel the rest
+    for (const app of medicationsStore.applications) {
+      if (!app.removedAt) continue
+
+      const removedAtMs = new Date(app.removedAt).getTime()
+      if (removedAtMs < lookbackMs) continue
+
+      const medication = medicationsStore.getMedication(app.medicationId)
+      const changeAtMs = medicationsStore.getPatchChangeAt(app).getTime()
+      const times = getScheduledChanges(app.medicationId, changeAtMs, untilMs)
+
+      times.forEach((atMs, index) => {
+        const happened = index === 0 && removedAtMs >= atMs
+
+        result.push({
+          uid: getChangeUid(app.id, index),
+          start: new Date(atMs),
+          end: new Date(atMs + 15 * 60 * 1000),
+          summary: getChangeSummary(medication?.name),
+          status: happened ? 'CONFIRMED' : 'CANCELLED',
+          sequence
+        })
+      })
+    }
+
+    // Unapplied patches no longer have a record, so cancel from the ledger entry instead.
+    // The times are approximate; calendar apps match cancellations by UID.
+    for (const entry of medicationsStore.ledger) {
+      if (entry.reason !== 'unapplied' || !entry.doseId) continue
+
+      const unappliedAtMs = new Date(entry.at).getTime()
+      if (unappliedAtMs < lookbackMs) continue
+
+      // Other medications have no change events to cancel
+      const medication = medicationsStore.getMedication(entry.medicationId)
+      if (medication?.deliveryKind !== 'patch') continue
+
+      const times = getScheduledChanges(entry.medicationId, unappliedAtMs, untilMs)
+
+      times.forEach((atMs, index) => {
+        result.push({
+          uid: getChangeUid(entry.doseId!, index),
+          start: new Date(atMs),
+          summary: getChangeSummary(medication.name),
+          status: 'CANCELLED',
+          sequence
+        })
+      })
+    }
+
+    // The day to request a refill, so it arrives before the supply runs out
+    for (const forecast of medicationsStore.supplyForecasts) {
+      const medication = medicationsStore.getMedication(forecast.medicationId)
+      const leadTimeDays = prescriptionsStore.getLeadTimeDays(forecast.medicationId)
+      const uid = getUid(`refill-${forecast.medicationId}`)
+      const summary = disguised.value ? DISGUISED_CALENDAR.summary : `Request refill: ${medication?.name || 'Medication'}`
+
+      if (!forecast.runOutAt) {
+        const lastRefillAtMs = refillDates.value[forecast.medicationId]
+        if (lastRefillAtMs !== undefined && lastRefillAtMs >= lookbackMs) {
+          result.push({ uid, start: new Date(lastRefillAtMs), allDay: true, summary, status: 'CANCELLED', sequence })
+        }
+        continue
+      }
+
+      const refillAtMs = getRefillAtMs(forecast.medicationId, forecast.runOutAt, nowMs)
+
+      result.push({
+        uid,
+        start: new Date(refillAtMs),
+        allDay: true,
+        summary,
+        description: disguised.value
+          ? undefined
+          : `Your supply is forecast to run out on ${forecast.runOutAt.toLocaleDateString()}. ` +
+            `Your pharmacy needs ${leadTimeDays} days.`,
+        sequence,
+        // 9am on the day
+        alarmMinutesBefore: -9 * 60
+      })
+    }
+
+    return result
+  })
+
+  // The schedule as an .ics document, named for the app only when not disguised
+  const calendarText = computed(() => {
+    return disguised.value
+      ? buildCalendar(DISGUISED_APP_NAME, events.value, DISGUISED_CALENDAR.productId)
+      : buildCalendar('Patch Changes', events.value)
+  })
+
+  // Download the schedule to import into a calendar app
+  function downloadCalendar() {
+    const fileName = disguised.value ? DISGUISED_CALENDAR.fileName : 'estropad-schedule.ics'
+    downloadFile(fileName, calendarText.value, 'text/calendar')
+  }
+
+  // Upload the current schedule to the feed. Only signed-in users can publish.
+  async function publishFeed() {
+    const authStore = useAuthStore()
+    if (!feedUrl.value || !authStore.session) return
+
+    try {
+      const response = await fetch(feedUrl.value, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'text/calendar',
+          'Authorization': `Bearer ${await authStore.getAccessToken()}`
+        },
+        body: calendarText.value
+      })
+
+      if (!response.ok) {
+        throw new Error(`Feed upload failed with status ${response.status}`)
+      }
+    } catch (error) {
+      console.error('Error publishing calendar feed:', error)
+    }
+  }
+
+  // Replace the feed URL, e.g. after sharing it by mistake
+  function resetFeedToken() {
+    feedToken.value = crypto.randomUUID()
+    publishFeed()
+  }
+
+  // Remember the day of each refill event. Only a new day is saved, since the day of an overdue
+  // refill moves with the clock.
+  watch(() => {
+    const nowMs = Date.now()
+    return medicationsStore.supplyForecasts.flatMap(forecast => {
+      return forecast.runOutAt ? [{ medicationId: forecast.medicationId, refillAtMs: getRefillAtMs(forecast.medicationId, forecast.runOutAt, nowMs) }] : []
+    })
+  }, refills => {
+    for (const { medicationId, refillAtMs } of refills) {
+      const lastRefillAtMs = refillDates.value[medicationId]
+      if (lastRefillAtMs === undefined || new Date(lastRefillAtMs).toDateString() !== new Date(refillAtMs).toDateString()) {
+        refillDates.value = { ...refillDates.value, [medicationId]: refillAtMs }
+      }
+    }
+  }, { immediate: true })
+
+  // Keep the feed current as the schedule changes
+  if (API_BASE_URL) {
+    watchDebounced(calendarText, publishFeed, { debounce: 5000, immediate: true })
+  }
+
+  return {
+    events,
+    feedUrl,
+    subscribeUrl,
+    downloadCalendar,
+    publishFeed,
+    resetFeedToken
+  }
+})
@@ -0,0 +1,129 @@
+import { defineStore } from 'pinia'
+import { computed } from 'vue'
+import { useMedicationsStore } from './medications'
+import { useUserStorage } from '@/utils/userStorage'
+import { convertLabValue, getAnalyte, type LabAnalyte } from '@/utils/units'
+
+export interface LabResult {
+  id: string
+  analyte: LabAnalyte
+  name?: string // Free-text name for "other" analytes
+  value: number
+  unit: string
+  drawnAt: string // ISO date string
+  referenceLow?: number // The lab's reference range, in the result's unit
+  referenceHigh?: number
+  labName?: string
+  notes?: string
+}
+
+export type LabResultInput = Omit<LabResult, 'id'>
+
+export const useLabsStore = defineStore('labs', () => {
+  // Blood test results (persistent)
+  const results = useUserStorage<LabResult[]>('lab-results', [])
+
+  // Validate a result before saving it
+  function validateResult(data: LabResultInput) {
+    if (!Number.isFinite(data.value) || data.value < 0) {
+      throw new Error('Please enter a valid result value')
+    }
+
+    if (!data.unit.trim()) {
+      throw new Error('Please enter the unit the lab reported')
+    }
+
+    const drawnAt = new Date(data.drawnAt)
+    if (isNaN(drawnAt.getTime())) {
+      throw new Error('Please enter a valid draw time')
+    }
+
+    if (drawnAt.getTime() > Date.now()) {
+      throw new Error('Draw time cannot be in the future')
+    }
+
+    if (data.referenceLow !== undefined && data.referenceHigh !== undefined && data.referenceLow > data.referenceHigh) {
+      throw new Error('The low end of the reference range is above the high end')
+    }
+
+    if (data.analyte === 'other' && !data.name?.trim()) {
+      throw new Error('Please name the test')
+    }
+  }
+
+  // Add a lab result
+  function addResult(data: LabResultInput) {
+    validateResult(data)
+
+    const newResult: LabResult = {
+      ...data,
+      id: Date.now().toString()
+    }
+
+    results.value.push(newResult)
+
+    return newResult
+  }
+
+  // Remove a lab result
+  function removeResult(resultId: string) {
+    results.value = results.value.filter(result => result.id !== resultId)
+  }
+
+  // Most recent patch change at or before a time, with how long before it was
+  function getTimingRelativeToPatches(at: Date) {
+    const medicationsStore = useMedicationsStore()
+
+    const lastChange = medicationsStore.applications
+      .map(app => new Date(app.takenAt))
+      .filter(appliedAt => appliedAt.getTime() <= at.getTime())
+      .sort((a, b) => b.getTime() - a.getTime())[0]
+
+    if (!lastChange) return null
+
+    return {
+      lastChangeAt: lastChange,
+      hoursSinceChange: Math.round((at.getTime() - lastChange.getTime()) / (60 * 60 * 1000) * 10) / 10
+    }
+  }
+
+  // Convert a result into a unit, or null when the units don't convert
+  function convertResult(result: LabResult, toUnit: string) {
+    return convertLabValue(result.analyte, result.value, result.unit, toUnit)
+  }
+
+  // Results newest first, with patch timing and the value in the analyte's comparison unit
+  const sortedResults = computed(() => {
+    return [...results.value]
+      .sort((a, b) => new Date(b.drawnAt).getTime() - new Date(a.drawnAt).getTime())
+      .map(result => {
+        const comparisonUnit = getAnalyte(result.analyte).units[0] || result.unit
+        const timing = getTimingRelativeToPatches(new Date(result.drawnAt))
+
+        return {
+          ...result,
+          comparisonUnit,
+          comparisonValue: convertResult(result, comparisonUnit),
+          lastChangeAt: timing?.lastChangeAt ?? null,
+          hoursSinceChange: timing?.hoursSinceChange ?? null
+        }
+      })
+  })
+
+  // Whether a result is outside the lab's reference range
+  function isOutOfRange(result: LabResult) {
+    if (result.referenceLow !== undefined && result.value < result.referenceLow) return 'low'
+    if (result.referenceHigh !== undefined && result.value > result.referenceHigh) return 'high'
+    return null
+  }
+
+  return {
+    results,
+    sortedResults,
+    addResult,
+    removeResult,
+    getTimingRelativeToPatches,
+    convertResult,
+    isOutOfRange
+  }
+})
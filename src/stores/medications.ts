@@ -0,0 +1,1624 @@
+import { defineStore } from 'pinia'
+import { computed, watch } from 'vue'
+import { usePrescriptionsStore } from './prescriptions'
+import { useSyncStore } from './sync'
+import { useTravelStore } from './travel'
+import { DEFAULT_PK_PARAMS, simulateSerumLevels, type DosingInterval, type PharmacokineticParams } from '@/utils/pharmacokinetics'
+import { getAdherenceChanges } from '@/utils/adherence'
+import { secureStorage } from '@/utils/secureStorage'
+import { userStorageKey } from '@/utils/userStorage'
+import { getCalendarDaysBetween, getDeviceTimeZone, getZonedParts } from '@/utils/date'
+import {
+  getDosesPerDay,
+  getLongestWeekdayGapHours,
+  getLotQuantities,
+  getNextDueAt,
+  getPatchChangeDueAt,
+  getSlotAfter,
+  getUnitName,
+  upgradeLegacyPatchType,
+  upgradeLegacyRecord,
+  validateSchedule,
+  type DeliveryKind,
+  type MedicationSchedule
+} from '@/utils/medications'
+
+export interface Medication {
+  id: string
+  name: string
+  deliveryKind: DeliveryKind
+  schedule: MedicationSchedule // Patches are changed every durationHours or on fixed weekdays
+  dose?: number // Amount in one dose, e.g. 2 for 2 mg
+  doseUnit?: string // Unit of the dose amount, e.g. "mg"
+  unitsPerDose?: number // Units of stock one dose uses, 0 when stock isn't counted (defaults to 1)
+  imageUrl?: string
+  imagePath?: string  // Alias for imageUrl for compatibility
+  enabled?: boolean
+  isCustom?: boolean
+  brand?: string // Brand or manufacturer
+  // Patches only
+  durationHours?: number // How long one patch is worn; on a weekday schedule, the longest wait between change days
+  deliveryRateMcgPerDay?: number // Labelled estradiol delivery rate (µg/day)
+  pkParams?: Partial<PharmacokineticParams> // Overrides of the serum model defaults
+}
+
+// Editable fields of a medication
+export interface MedicationInput {
+  name: string
+  deliveryKind: DeliveryKind
+  schedule: MedicationSchedule
+  dose?: number
+  doseUnit?: string
+  unitsPerDose?: number
+  brand?: string
+  deliveryRateMcgPerDay?: number
+  pkParams?: Partial<PharmacokineticParams>
+}
+
+// Stock on hand for a medication, summed over its lots
+export interface MedicationInventory {
+  medicationId: string
+  count: number
+}
+
+export interface InventoryLot {
+  id: string
+  medicationId: string
+  quantity: number
+  lotNumber?: string // Unset for stock of unknown lot, e.g. migrated from plain counts
+  expiresAt?: string // ISO date string
+  receivedAt: string // ISO date string
+}
+
+export type InventoryChangeReason = 'received' | 'applied' | 'discarded' | 'damaged' | 'unapplied' | 'manual-correction'
+
+// Reasons an inventory count changes, in display order
+export const INVENTORY_CHANGE_REASONS: { value: InventoryChangeReason, label: string }[] = [
+  { value: 'received', label: 'Received' },
+  { value: 'applied', label: 'Used' },
+  { value: 'discarded', label: 'Discarded' },
+  { value: 'damaged', label: 'Damaged' },
+  { value: 'unapplied', label: 'Returned' },
+  { value: 'manual-correction', label: 'Manual correction' }
+]
+
+// One entry in the append-only inventory ledger
+export interface InventoryTransaction {
+  id: string
+  at: string // ISO date string
+  medicationId: string
+  lotId?: string
+  delta: number
+  reason: InventoryChangeReason
+  note?: string
+  doseId?: string // The dose that used (or returned) the stock
+  undoesId?: string // Set on entries that reverse an earlier entry
+}
+
+// How many of the latest ledger entries can be undone
+export const LEDGER_UNDO_LIMIT = 5
+
+// Details captured when stock is added
+export interface LotDetails {
+  lotNumber?: string
+  expiresAt?: Date
+  receivedAt?: Date
+}
+
+// Days before expiry that stock starts being flagged
+export const EXPIRY_WARNING_DAYS = 30
+
+// Medications everyone starts with
+const DEFAULT_MEDICATIONS: Medication[] = [
+  {
+    id: 'estradiol-2day',
+    name: 'Estradiol (2 day)',
+    deliveryKind: 'patch',
+    schedule: { kind: 'interval', everyHours: 48 },
+    durationHours: 48,
+    imageUrl: '/images/patch-2day.svg',
+    enabled: true,
+    isCustom: false
+  },
+  {
+    id: 'estradiol-week',
+    name: 'Estradiol (Weekly)',
+    deliveryKind: 'patch',
+    schedule: { kind: 'interval', everyHours: 168 },
+    durationHours: 168,
+    imageUrl: '/images/patch-week.svg',
+    enabled: true,
+    isCustom: false
+  }
+]
+
+// Read a value saved under a key from before medications replaced patch types
+function readLegacyKey<T>(key: string): T | undefined {
+  try {
+    const stored = secureStorage.getItem(userStorageKey(key))
+    return stored === null ? undefined : JSON.parse(stored)
+  } catch (error) {
+    console.error(`Error reading ${key}:`, error)
+    return undefined
+  }
+}
+
+// Read a list of records from before medications replaced patch types, with their fields renamed
+function readLegacyRecords<T>(key: string): T[] | undefined {
+  const records = readLegacyKey<Record<string, unknown>[]>(key)
+  return Array.isArray(records) ? records.map(record => upgradeLegacyRecord<T>(record)) : undefined
+}
+
+// Load stock counts saved before lots existed, as one "unknown lot" per patch type
+function loadLegacyInventory(): InventoryLot[] {
+  let counts: { patchTypeId: string, count: number }[] = [
+    { patchTypeId: 'estradiol-2day', count: 10 },
+    { patchTypeId: 'estradiol-week', count: 5 }
+  ]
+  
+  try {
+    const stored = secureStorage.getItem('patch-inventory')
+    if (stored) {
+      counts = JSON.parse(stored)
+    }
+  } catch (error) {
+    console.error('Error reading legacy inventory:', error)
+  }
+  
+  const receivedAt = new Date().toISOString()
+  
+  return counts
+    .filter(item => item.count > 0)
+    .map(item => ({
+      id: `lot-legacy-${item.patchTypeId}`,
+      medicationId: item.patchTypeId,
+      quantity: item.count,
+      receivedAt
+    }))
+}
+
+export type PatchRemovalReason = 'scheduled-change' | 'fell-off' | 'skin-irritation' | 'other'
+
+// Reasons offered when a patch is taken off, in display order
+export const REMOVAL_REASONS: { value: PatchRemovalReason, label: string }[] = [
+  { value: 'scheduled-change', label: 'Scheduled change' },
+  { value: 'fell-off', label: 'Fell off' },
+  { value: 'skin-irritation', label: 'Skin irritation' },
+  { value: 'other', label: 'Other' }
+]
+
+export interface ApplicationSite {
+  id: string
+  label: string
+  view?: 'front' | 'back' // Body map side the site is drawn on (custom sites have none)
+  x?: number // Body map position in viewBox units (0-100)
+  y?: number // Body map position in viewBox units (0-200)
+  isCustom?: boolean
+}
+
+// Built-in application sites. Left/right are the wearer's own sides.
+export const DEFAULT_SITES: ApplicationSite[] = [
+  { id: 'abdomen-left', label: 'Left abdomen', view: 'front', x: 58, y: 92 },
+  { id: 'abdomen-right', label: 'Right abdomen', view: 'front', x: 42, y: 92 },
+  { id: 'hip-left', label: 'Left hip', view: 'front', x: 65, y: 110 },
+  { id: 'hip-right', label: 'Right hip', view: 'front', x: 35, y: 110 },
+  { id: 'upper-arm-left', label: 'Left upper arm', view: 'front', x: 78, y: 58 },
+  { id: 'upper-arm-right', label: 'Right upper arm', view: 'front', x: 22, y: 58 },
+  { id: 'upper-back-left', label: 'Left upper back', view: 'back', x: 40, y: 55 },
+  { id: 'upper-back-right', label: 'Right upper back', view: 'back', x: 60, y: 55 },
+  { id: 'lower-back-left', label: 'Left lower back', view: 'back', x: 42, y: 90 },
+  { id: 'lower-back-right', label: 'Right lower back', view: 'back', x: 58, y: 90 },
+  { id: 'buttock-left', label: 'Left buttock', view: 'back', x: 41, y: 115 },
+  { id: 'buttock-right', label: 'Right buttock', view: 'back', x: 59, y: 115 }
+]
+
+// One dose of any medication. A patch record is one patch, from when it went on until it came off.
+export interface DoseRecord {
+  id: string
+  medicationId: string
+  takenAt: string // ISO date string
+  units?: number // Units of stock used; patch records are one patch each
+  lotId?: string // Inventory lot the stock was taken from (the first, if several)
+  lotNumber?: string
+  notes?: string
+  dose?: number // Dose amount of the medication when it was taken
+  doseUnit?: string
+  // Patches only
+  location?: string // Display label of the site, or free text for older records
+  siteId?: string
+  doseMcgPerDay?: number // Delivery rate of the patch when it was applied
+  removedAt?: string // ISO date string, unset while the patch is still worn
+  removalReason?: PatchRemovalReason
+  changeDueAt?: string // ISO date string; set on patches changed on weekdays, so moving the weekdays later keeps it
+  groupId?: string // Shared by patches applied together in one go
+  timeZone?: string // IANA time zone of the device when recorded, unset on older records
+}
+
+// A patch record, which always says where the patch was worn
+export type PatchApplication = DoseRecord & { location: string }
+
+export interface ApplyPatchOptions {
+  appliedAt?: Date // Defaults to now; may be backdated but not in the future
+  quantity?: number // Number of patches put on at once
+  siteId?: string
+  replacedDueAt?: Date // When the patch this one replaces was due to be changed
+}
+
+export interface LogDoseOptions {
+  takenAt?: Date // Defaults to now; may be backdated but not in the future
+  notes?: string
+}
+
+// Editable fields of a dose record
+export interface DoseEdit {
+  medicationId: string
+  takenAt: Date
+  location?: string // Patches only
+  siteId?: string
+  notes?: string
+}
+
+export interface ChangePatchOptions {
+  siteId?: string
+  reason?: PatchRemovalReason
+  appliedAt?: Date // When the new patch went on (defaults to now)
+}
+
+// Current version of the persisted dose records
+const DOSES_VERSION = 1
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export const useMedicationsStore = defineStore('medications', () => {
+  // Doses, medications and inventory sync between devices when a backend is configured
+  const persistence = useSyncStore().persistence
+  const travelStore = useTravelStore()
+
+  // Medications in the regimen with enabled status. Patch types saved before other
+  // medications existed become patch medications on the first load.
+  const medications = persistence.useCollection<Medication>('medications', () => {
+    const patchTypes = readLegacyKey<Record<string, unknown>[]>('patch-types')
+    return Array.isArray(patchTypes) ? patchTypes.map(type => upgradeLegacyPatchType<Medication>(type)) : DEFAULT_MEDICATIONS
+  })
+
+  // Inventory lots (persistent). The first load converts lots and counts from older versions.
+  // Used-up lots are kept so returned stock and undone changes can go back to them.
+  // Counts are rebuilt from the ledger after a sync, so lot conflicts just take the server's copy.
+  const lots = persistence.useCollection<InventoryLot>('medication-lots', () => {
+    return readLegacyRecords<InventoryLot>('patch-inventory-lots') ?? loadLegacyInventory()
+  }, { conflicts: 'remote' })
+  secureStorage.removeItem('patch-inventory')
+
+  // Every change to inventory (persistent, append-only). Starts with the stock on hand.
+  // Entries never change once written, so the server's copy always wins a conflict.
+  const ledger = persistence.useCollection<InventoryTransaction>('medication-ledger', () => {
+    const legacy = readLegacyRecords<InventoryTransaction>('patch-inventory-ledger')
+    if (legacy) return legacy
+    
+    const at = new Date().toISOString()
+    return lots.value
+      .filter(lot => lot.quantity > 0)
+      .map(lot => ({
+        // Named after the lot, so devices starting from the same stock don't count it twice
+        id: `txn-opening-${lot.id}`,
+        at,
+        medicationId: lot.medicationId,
+        lotId: lot.id,
+        delta: lot.quantity,
+        reason: 'manual-correction' as const,
+        note: 'Opening balance'
+      }))
+  }, { conflicts: 'remote' })
+
+  // Stock on hand per medication, including ones with none left
+  const inventory = computed<MedicationInventory[]>(() => {
+    const counts = new Map<string, number>(medications.value.map(medication => [medication.id, 0]))
+    
+    for (const lot of lots.value) {
+      counts.set(lot.medicationId, (counts.get(lot.medicationId) || 0) + lot.quantity)
+    }
+    
+    return [...counts].map(([medicationId, count]) => ({ medicationId, count }))
+  })
+
+  // Dose history of every medication (persistent). Starts with the patch applications of older versions.
+  const doses = persistence.useCollection<DoseRecord>('medication-doses', () => {
+    return readLegacyRecords<DoseRecord>('patch-applications') ?? []
+  })
+
+  // Version of the stored dose records, used to run migrations once
+  const dosesVersion = persistence.useValue<number>('medication-doses-version', () => {
+    return readLegacyKey<number>('patch-applications-version') ?? 0
+  })
+
+  // Patch records, the ones with a location
+  const applications = computed(() => {
+    return doses.value.filter((dose): dose is PatchApplication => dose.location !== undefined)
+  })
+
+  // User-defined application sites (persistent)
+  const customSites = persistence.useValue<ApplicationSite[]>('patch-custom-sites', [])
+
+  // Days a site should rest after a patch comes off before it is used again
+  const siteRestDays = persistence.useValue<number>('patch-site-rest-days', 7)
+
+  // Late changes whose weekday schedule was kept or moved, by application ID
+  const settledLateChanges = persistence.useValue<string[]>('patch-settled-late-changes', [])
+
+  // Get enabled medications
+  const enabledMedications = computed(() => {
+    return medications.value.filter(medication => medication.enabled)
+  })
+
+  // Enabled patch medications, the ones that can be applied
+  const enabledPatchTypes = computed(() => {
+    return enabledMedications.value.filter(medication => medication.deliveryKind === 'patch')
+  })
+
+  // Toggle medication enabled status
+  function toggleMedicationEnabled(medicationId: string) {
+    const medication = medications.value.find(item => item.id === medicationId)
+    if (medication) {
+      medication.enabled = !medication.enabled
+    }
+  }
+
+  // Check the fields of a medication and keep only the ones its delivery kind uses.
+  // A patch is due again when its wear time is up, or on the next of its weekdays.
+  function getMedicationFields(data: MedicationInput) {
+    if (!data.name.trim()) {
+      throw new Error('Please enter a name for the medication')
+    }
+    
+    if (data.deliveryKind === 'patch') {
+      if (data.schedule.kind === 'times') {
+        throw new Error('Patches are changed every so many hours or on set days of the week')
+      }
+      
+      validateSchedule(data.schedule)
+      
+      return {
+        name: data.name.trim(),
+        deliveryKind: data.deliveryKind,
+        schedule: data.schedule,
+        brand: data.brand,
+        durationHours: data.schedule.kind === 'interval' ? data.schedule.everyHours : getLongestWeekdayGapHours(data.schedule.weekdays),
+        deliveryRateMcgPerDay: data.deliveryRateMcgPerDay,
+        pkParams: data.pkParams
+      }
+    }
+    
+    validateSchedule(data.schedule)
+    
+    const unitsPerDose = data.unitsPerDose ?? 1
+    if (!Number.isInteger(unitsPerDose) || unitsPerDose < 0) {
+      throw new Error('Units per dose must be a whole number')
+    }
+    
+    if (data.dose !== undefined && (!Number.isFinite(data.dose) || data.dose <= 0)) {
+      throw new Error('Dose must be greater than 0')
+    }
+    
+    return {
+      name: data.name.trim(),
+      deliveryKind: data.deliveryKind,
+      schedule: data.schedule,
+      dose: data.dose,
+      doseUnit: data.dose !== undefined ? data.doseUnit?.trim() || undefined : undefined,
+      unitsPerDose,
+      brand: data.brand
+    }
+  }
+
+  // Edit an existing medication
+  function editMedication(medicationId: string, data: MedicationInput) {
+    const index = medications.value.findIndex(medication => medication.id === medicationId)
+    
+    if (index === -1) {
+      throw new Error('Medication not found')
+    }
+    
+    const current = medications.value[index]
+    if (data.deliveryKind !== current.deliveryKind && doses.value.some(dose => dose.medicationId === medicationId)) {
+      throw new Error('How a medication is taken cannot change once doses are recorded')
+    }
+    
+    // Replaced whole, so fields the new delivery kind doesn't use are dropped
+    medications.value[index] = {
+      id: current.id,
+      imageUrl: current.imageUrl,
+      imagePath: current.imagePath,
+      enabled: current.enabled,
+      isCustom: current.isCustom,
+      ...getMedicationFields(data)
+    }
+    
+    rescheduleWornPatches(medicationId)
+    
+    return medications.value[index]
+  }
+
+  // Add a new custom medication
+  function addCustomMedication(data: MedicationInput) {
+    const image = data.deliveryKind === 'patch' ? '/images/patch-custom.svg' : `/images/${data.deliveryKind}.svg`
+    
+    const newMedication: Medication = {
+      id: `custom-${Date.now()}`,
+      ...getMedicationFields(data),
+      imageUrl: image,
+      imagePath: image,
+      enabled: true,
+      isCustom: true
+    }
+    
+    medications.value.push(newMedication)
+    
+    return newMedication
+  }
+
+  // Delete a custom medication
+  function deleteCustomMedication(medicationId: string) {
+    const medication = medications.value.find(item => item.id === medicationId)
+    
+    // Only allow deletion of custom medications
+    if (!medication || !medication.isCustom) {
+      throw new Error('Only custom medications can be deleted')
+    }
+    
+    // History would lose what the doses were
+    if (doses.value.some(dose => dose.medicationId === medicationId)) {
+      throw new Error('Cannot delete a medication with recorded doses')
+    }
+    
+    medications.value = medications.value.filter(item => item.id !== medicationId)
+    
+    // Remove from inventory
+    for (const lot of lots.value.filter(item => item.medicationId === medicationId && item.quantity > 0)) {
+      recordTransaction({ medicationId, lotId: lot.id, delta: -lot.quantity, reason: 'discarded', note: 'Medication deleted' })
+    }
+    lots.value = lots.value.filter(lot => lot.medicationId !== medicationId)
+  }
+
+  // Units of stock one dose of a medication uses
+  function getUnitsPerDose(medicationId: string) {
+    const medication = getMedication(medicationId)
+    if (!medication || medication.deliveryKind === 'patch') return 1
+    return medication.unitsPerDose ?? 1
+  }
+
+  // Check there is enough stock for a dose
+  function checkStock(medicationId: string, quantity: number) {
+    const available = getStockCount(medicationId)
+    const medication = getMedication(medicationId)
+    const units = getUnitName(medication?.deliveryKind ?? 'patch', 2)
+    
+    if (available <= 0) {
+      throw new Error(medication ? `No ${medication.name} ${units} available in inventory` : `No ${units} available in inventory`)
+    }
+    
+    if (available < quantity) {
+      throw new Error(`Only ${available} ${getUnitName(medication?.deliveryKind ?? 'patch', available)} available in inventory`)
+    }
+  }
+
+  // Add new patch application(s), one record per patch worn
+  function applyPatch(medicationId: string, location: string, notes?: string, options: ApplyPatchOptions = {}) {
+    const appliedAt = options.appliedAt ?? new Date()
+    const quantity = options.quantity ?? 1
+    
+    if (isNaN(appliedAt.getTime())) {
+      throw new Error('Invalid application time')
+    }
+    
+    if (appliedAt.getTime() > Date.now()) {
+      throw new Error('Application time cannot be in the future')
+    }
+    
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new Error('Quantity must be a whole number of at least 1')
+    }
+    
+    if (getMedication(medicationId)?.deliveryKind !== 'patch') {
+      throw new Error('Only patches can be applied')
+    }
+    
+    // Check if we have enough patches in inventory
+    checkStock(medicationId, quantity)
+    
+    // Decrease inventory, soonest-expiring lot first
+    const taken = takeFromLots(medicationId, quantity, true)
+    
+    // Add application records, linked together when more than one patch goes on
+    const timestamp = Date.now().toString()
+    const groupId = quantity > 1 ? `group-${timestamp}` : undefined
+    const newApplications: PatchApplication[] = []
+    const doseMcgPerDay = getMedication(medicationId)?.deliveryRateMcgPerDay
+    const changeDueAt = getFixedChangeDueAt(medicationId, appliedAt.getTime(), options.replacedDueAt?.getTime() ?? null)
+    
+    for (let i = 0; i < quantity; i++) {
+      newApplications.push({
+        id: quantity > 1 ? `${timestamp}-${i + 1}` : timestamp,
+        medicationId,
+        takenAt: appliedAt.toISOString(),
+        location,
+        siteId: options.siteId,
+        lotId: taken[i].lotId,
+        lotNumber: taken[i].lotNumber,
+        notes,
+        doseMcgPerDay,
+        changeDueAt,
+        groupId,
+        timeZone: getDeviceTimeZone()
+      })
+    }
+    
+    doses.value.push(...newApplications)
+    
+    for (const app of newApplications) {
+      recordTransaction({ medicationId, lotId: app.lotId, delta: -1, reason: 'applied', doseId: app.id })
+    }
+    
+    return newApplications
+  }
+
+  // Record a dose of a medication other than a patch, taking its units from inventory
+  function logDose(medicationId: string, options: LogDoseOptions = {}) {
+    const medication = getMedication(medicationId)
+    const takenAt = options.takenAt ?? new Date()
+    
+    if (!medication) {
+      throw new Error('Medication not found')
+    }
+    
+    if (medication.deliveryKind === 'patch') {
+      throw new Error('Patches are recorded by applying them')
+    }
+    
+    if (isNaN(takenAt.getTime())) {
+      throw new Error('Invalid dose time')
+    }
+    
+    if (takenAt.getTime() > Date.now()) {
+      throw new Error('Dose time cannot be in the future')
+    }
+    
+    const units = getUnitsPerDose(medicationId)
+    if (units > 0) {
+      checkStock(medicationId, units)
+    }
+    
+    const taken = takeFromLots(medicationId, units, true)
+    const dose: DoseRecord = {
+      id: Date.now().toString(),
+      medicationId,
+      takenAt: takenAt.toISOString(),
+      units,
+      lotId: taken[0]?.lotId,
+      lotNumber: taken[0]?.lotNumber,
+      notes: options.notes?.trim() || undefined,
+      dose: medication.dose,
+      doseUnit: medication.doseUnit,
+      timeZone: getDeviceTimeZone()
+    }
+    
+    doses.value.push(dose)
+    recordLotChanges(medicationId, taken, 'applied', undefined, dose.id)
+    
+    return dose
+  }
+
+  // Mark a worn patch as taken off the body
+  function markPatchRemoved(applicationId: string, reason: PatchRemovalReason, removedAt: Date = new Date()) {
+    const application = getRemovableApplication(applicationId, removedAt)
+    
+    application.removedAt = removedAt.toISOString()
+    application.removalReason = reason
+    
+    return application
+  }
+
+  // The record of a patch that can come off at a time, or an error saying why not
+  function getRemovableApplication(applicationId: string, removedAt: Date) {
+    const application = applications.value.find(app => app.id === applicationId)
+    
+    if (!application) {
+      throw new Error('Application record not found')
+    }
+    
+    if (application.removedAt) {
+      throw new Error('This patch has already been removed')
+    }
+    
+    if (removedAt.getTime() < new Date(application.takenAt).getTime()) {
+      throw new Error('A patch cannot be removed before it was applied')
+    }
+    
+    if (removedAt.getTime() > Date.now()) {
+      throw new Error('Removal time cannot be in the future')
+    }
+    
+    return application
+  }
+
+  // Change a patch in one step - take off the old one and apply a new one
+  function changePatch(
+    applicationId: string,
+    newMedicationId: string,
+    location: string,
+    notes?: string,
+    options: ChangePatchOptions = {}
+  ) {
+    const appliedAt = options.appliedAt ?? new Date()
+    
+    // Check the old patch can come off then before anything is written, so a bad time
+    // doesn't leave both patches on
+    const oldApplication = getRemovableApplication(applicationId, appliedAt)
+    
+    // Apply first so a failed application (e.g. empty inventory) leaves the old patch on
+    const [newApplication] = applyPatch(newMedicationId, location, notes, {
+      siteId: options.siteId,
+      appliedAt,
+      replacedDueAt: getPatchChangeAt(oldApplication)
+    })
+    markPatchRemoved(applicationId, options.reason ?? 'scheduled-change', appliedAt)
+    
+    return newApplication
+  }
+
+  // Put the stock a dose used back in inventory, lot by lot as its ledger entries took it.
+  // Records from before the ledger go back to their lot, or an unknown lot.
+  function returnDoseStock(dose: DoseRecord, note?: string) {
+    const held = new Map<string, number>()
+    
+    for (const entry of ledger.value) {
+      if (entry.doseId === dose.id && entry.lotId) {
+        held.set(entry.lotId, (held.get(entry.lotId) || 0) - entry.delta)
+      }
+    }
+    
+    if (held.size === 0 && (dose.units ?? 1) > 0) {
+      held.set(dose.lotId ?? '', dose.units ?? 1)
+    }
+    
+    for (const [lotId, quantity] of held) {
+      if (quantity <= 0) continue
+      
+      const lot = lots.value.find(item => item.id === lotId) ?? findOrCreateLot(dose.medicationId, {})
+      lot.quantity += quantity
+      recordTransaction({ medicationId: lot.medicationId, lotId: lot.id, delta: quantity, reason: 'unapplied', doseId: dose.id, note })
+    }
+  }
+
+  // Correct a dose record. Changing the medication returns the stock it used and takes
+  // stock of the new medication instead. Patches can only be swapped for other patches.
+  function editDose(doseId: string, changes: DoseEdit) {
+    const dose = doses.value.find(item => item.id === doseId)
+    
+    if (!dose) {
+      throw new Error('Dose record not found')
+    }
+    
+    const medication = getMedication(changes.medicationId)
+    if (!medication) {
+      throw new Error('Medication not found')
+    }
+    
+    const isPatch = dose.location !== undefined
+    if ((medication.deliveryKind === 'patch') !== isPatch) {
+      throw new Error(isPatch ? 'A patch can only be changed to another patch' : 'A dose cannot be changed to a patch')
+    }
+    
+    if (isNaN(changes.takenAt.getTime())) {
+      throw new Error(isPatch ? 'Invalid application time' : 'Invalid dose time')
+    }
+    
+    if (changes.takenAt.getTime() > Date.now()) {
+      throw new Error(isPatch ? 'Application time cannot be in the future' : 'Dose time cannot be in the future')
+    }
+    
+    if (dose.removedAt && changes.takenAt.getTime() > new Date(dose.removedAt).getTime()) {
+      throw new Error('A patch cannot be applied after it was removed')
+    }
+    
+    const location = changes.location?.trim()
+    if (isPatch && !location) {
+      throw new Error('Please enter where the patch was applied')
+    }
+    
+    if (changes.medicationId !== dose.medicationId) {
+      const units = getUnitsPerDose(changes.medicationId)
+      if (units > 0) {
+        checkStock(changes.medicationId, units)
+      }
+      
+      returnDoseStock(dose, 'Medication corrected')
+      
+      const taken = takeFromLots(changes.medicationId, units, true)
+      recordLotChanges(changes.medicationId, taken, 'applied', 'Medication corrected', doseId)
+      
+      dose.medicationId = changes.medicationId
+      dose.lotId = taken[0]?.lotId
+      dose.lotNumber = taken[0]?.lotNumber
+      
+      if (isPatch) {
+        dose.doseMcgPerDay = medication.deliveryRateMcgPerDay
+      } else {
+        dose.units = units
+        dose.dose = medication.dose
+        dose.doseUnit = medication.doseUnit
+      }
+    }
+    
+    dose.takenAt = changes.takenAt.toISOString()
+    dose.notes = changes.notes?.trim() || undefined
+    
+    if (isPatch) {
+      dose.location = location
+      dose.siteId = changes.siteId || undefined
+      dose.changeDueAt = getFixedChangeDueAt(dose.medicationId, changes.takenAt.getTime(), getReplacedDueAt(dose.id))
+    }
+    
+    return dose
+  }
+
+  // Undo a dose - remove its record and return what it used to inventory
+  function undoDose(doseId: string) {
+    const index = doses.value.findIndex(dose => dose.id === doseId)
+    
+    if (index === -1) {
+      throw new Error('Dose record not found')
+    }
+    
+    const [dose] = doses.value.splice(index, 1)
+    returnDoseStock(dose)
+    
+    return dose.medicationId
+  }
+
+  // Total stock of a medication
+  function getStockCount(medicationId: string) {
+    return lots.value
+      .filter(lot => lot.medicationId === medicationId)
+      .reduce((sum, lot) => sum + lot.quantity, 0)
+  }
+
+  // Whether a lot is past its expiry date
+  function isLotExpired(lot: InventoryLot, at: Date = new Date()) {
+    return !!lot.expiresAt && new Date(lot.expiresAt).getTime() <= at.getTime()
+  }
+
+  // Lots of a medication in the order they should be used: soonest expiry first,
+  // lots without an expiry date last, oldest received first within the same expiry
+  function getLotsInUseOrder(medicationId: string) {
+    return lots.value
+      .filter(lot => lot.medicationId === medicationId && lot.quantity > 0)
+      .sort((a, b) => {
+        const aExpiry = a.expiresAt ? new Date(a.expiresAt).getTime() : Infinity
+        const bExpiry = b.expiresAt ? new Date(b.expiresAt).getTime() : Infinity
+        if (aExpiry !== bExpiry) return aExpiry - bExpiry
+        return new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime()
+      })
+  }
+
+  // Take units out of lots, one entry per unit taken. When using stock for a dose,
+  // expired stock is only used once nothing else is left.
+  function takeFromLots(medicationId: string, quantity: number, avoidExpired = false) {
+    let ordered = getLotsInUseOrder(medicationId)
+    
+    if (avoidExpired) {
+      ordered = [...ordered.filter(lot => !isLotExpired(lot)), ...ordered.filter(lot => isLotExpired(lot))]
+    }
+    
+    const taken: { lotId: string, lotNumber?: string }[] = []
+    
+    for (const lot of ordered) {
+      while (lot.quantity > 0 && taken.length < quantity) {
+        lot.quantity--
+        taken.push({ lotId: lot.id, lotNumber: lot.lotNumber })
+      }
+      if (taken.length === quantity) break
+    }
+    
+    return taken
+  }
+
+  // Append an entry to the inventory ledger
+  function recordTransaction(entry: Omit<InventoryTransaction, 'id' | 'at'>) {
+    const transaction: InventoryTransaction = {
+      ...entry,
+      id: `txn-${Date.now()}-${ledger.value.length}`,
+      at: new Date().toISOString()
+    }
+    
+    ledger.value.push(transaction)
+    
+    return transaction
+  }
+
+  // Find the lot with the same details, or start a new empty one
+  function findOrCreateLot(medicationId: string, details: LotDetails) {
+    const lotNumber = details.lotNumber?.trim() || undefined
+    const expiresAt = details.expiresAt?.toISOString()
+    
+    let lot = lots.value.find(item => {
+      return item.medicationId === medicationId && item.lotNumber === lotNumber && item.expiresAt === expiresAt
+    })
+    
+    if (!lot) {
+      lot = {
+        id: `lot-${Date.now()}-${lots.value.length}`,
+        medicationId,
+        quantity: 0,
+        lotNumber,
+        expiresAt,
+        receivedAt: (details.receivedAt ?? new Date()).toISOString()
+      }
+      lots.value.push(lot)
+    }
+    
+    return lot
+  }
+
+  // Add stock to inventory, merging into an existing lot with the same details
+  function addToInventory(
+    medicationId: string,
+    count: number,
+    details: LotDetails = {},
+    reason: InventoryChangeReason = 'received',
+    note?: string
+  ) {
+    if (details.expiresAt && isNaN(details.expiresAt.getTime())) {
+      throw new Error('Invalid expiry date')
+    }
+    
+    const lot = findOrCreateLot(medicationId, details)
+    lot.quantity += count
+    
+    recordTransaction({ medicationId, lotId: lot.id, delta: count, reason, note })
+    
+    return lot
+  }
+
+  // Record units taken out of lots, one ledger entry per lot touched
+  function recordLotChanges(
+    medicationId: string,
+    taken: { lotId: string }[],
+    reason: InventoryChangeReason,
+    note?: string,
+    doseId?: string
+  ) {
+    const perLot = new Map<string, number>()
+    for (const { lotId } of taken) {
+      perLot.set(lotId, (perLot.get(lotId) || 0) + 1)
+    }
+    
+    for (const [lotId, removed] of perLot) {
+      recordTransaction({ medicationId, lotId, delta: -removed, reason, note, doseId })
+    }
+  }
+
+  // Remove stock from inventory, soonest-expiring (including expired) stock first
+  function removeFromInventory(
+    medicationId: string,
+    count: number,
+    reason: InventoryChangeReason = 'discarded',
+    note?: string
+  ) {
+    recordLotChanges(medicationId, takeFromLots(medicationId, count), reason, note)
+  }
+
+  // Remove stock from a specific lot
+  function removeFromLot(
+    lotId: string,
+    count: number,
+    reason: InventoryChangeReason = 'discarded',
+    note?: string
+  ) {
+    const lot = lots.value.find(item => item.id === lotId)
+    
+    if (!lot) {
+      throw new Error('Inventory lot not found')
+    }
+    
+    const removed = Math.min(lot.quantity, count)
+    if (removed <= 0) return
+    
+    lot.quantity -= removed
+    recordTransaction({ medicationId: lot.medicationId, lotId, delta: -removed, reason, note })
+  }
+
+  // Record a physical stock count, correcting the inventory to match it
+  function reconcileInventory(medicationId: string, countedQuantity: number, note?: string) {
+    if (!Number.isInteger(countedQuantity) || countedQuantity < 0) {
+      throw new Error('Counted quantity must be a whole number')
+    }
+    
+    const difference = countedQuantity - getStockCount(medicationId)
+    const correctionNote = note?.trim() || `Stock count: ${countedQuantity}`
+    
+    if (difference > 0) {
+      addToInventory(medicationId, difference, {}, 'manual-correction', correctionNote)
+    } else if (difference < 0) {
+      removeFromInventory(medicationId, -difference, 'manual-correction', correctionNote)
+    }
+    
+    return difference
+  }
+
+  // IDs of ledger entries that have been undone
+  const undoneTransactionIds = computed(() => {
+    return new Set(ledger.value.filter(entry => entry.undoesId).map(entry => entry.undoesId!))
+  })
+
+  // Whether a ledger entry can still be undone: one of the latest entries, not an
+  // undo itself, and not tied to a dose (undo the dose for those)
+  function canUndoTransaction(transactionId: string) {
+    const recent = ledger.value.slice(-LEDGER_UNDO_LIMIT)
+    const entry = recent.find(item => item.id === transactionId)
+    
+    return !!entry
+      && !entry.undoesId
+      && !entry.doseId
+      && entry.reason !== 'applied'
+      && entry.reason !== 'unapplied'
+      && !undoneTransactionIds.value.has(entry.id)
+  }
+
+  // Reverse a recent ledger entry by appending the opposite change
+  function undoTransaction(transactionId: string) {
+    if (!canUndoTransaction(transactionId)) {
+      throw new Error('This change can no longer be undone')
+    }
+    
+    const entry = ledger.value.find(item => item.id === transactionId)!
+    const lot = lots.value.find(item => item.id === entry.lotId)
+    
+    if (!lot) {
+      throw new Error('The inventory lot for this change no longer exists')
+    }
+    
+    if (lot.quantity - entry.delta < 0) {
+      throw new Error('Some of this stock has already been used')
+    }
+    
+    lot.quantity -= entry.delta
+    
+    const label = INVENTORY_CHANGE_REASONS.find(r => r.value === entry.reason)?.label || entry.reason
+    
+    return recordTransaction({
+      medicationId: entry.medicationId,
+      lotId: lot.id,
+      delta: -entry.delta,
+      reason: 'manual-correction',
+      note: `Undo of "${label}" entry`,
+      undoesId: entry.id
+    })
+  }
+
+  // Set each lot's count from its ledger entries, the only reliable count after a sync
+  function recountLots() {
+    const quantities = getLotQuantities(ledger.value)
+    for (const lot of lots.value) {
+      const quantity = quantities.get(lot.id)
+      if (quantity !== undefined && lot.quantity !== quantity) {
+        lot.quantity = quantity
+      }
+    }
+  }
+
+  persistence.onRemoteChange(key => {
+    if (key === 'medication-ledger' || key === 'medication-lots') {
+      recountLots()
+    }
+  })
+
+  // Remove a dose record without returning its stock
+  function removeDose(doseId: string) {
+    const index = doses.value.findIndex(dose => dose.id === doseId)
+    
+    if (index !== -1) {
+      doses.value.splice(index, 1)
+    }
+  }
+
+  // Get a medication by ID
+  function getMedication(medicationId: string) {
+    return medications.value.find(medication => medication.id === medicationId)
+  }
+
+  // Records from before removal tracking have no removedAt, so they would all look
+  // like they are still being worn. Close out the expired ones at their expiry time.
+  function migrateDoses() {
+    if (dosesVersion.value >= DOSES_VERSION) return
+    
+    const now = Date.now()
+    
+    doses.value = doses.value.map(dose => {
+      if (dose.location === undefined || dose.removedAt) return dose
+      
+      const medication = getMedication(dose.medicationId)
+      const expiresAt = new Date(dose.takenAt).getTime() + (medication?.durationHours || 0) * HOUR_MS
+      
+      if (expiresAt > now) return dose
+      
+      return {
+        ...dose,
+        removedAt: new Date(expiresAt).toISOString(),
+        removalReason: 'scheduled-change'
+      }
+    })
+    
+    dosesVersion.value = DOSES_VERSION
+  }
+
+  // Each account's records are migrated when it is first loaded
+  watch(dosesVersion, migrateDoses, { immediate: true })
+
+  // The next change of a patch medication after a time: a wear time later on an interval,
+  // or the next of its weekdays. Null for other medications.
+  function getNextChangeAfter(medicationId: string, afterMs: number) {
+    const medication = getMedication(medicationId)
+    if (medication?.deliveryKind !== 'patch') return null
+    
+    if (medication.schedule.kind === 'weekdays') {
+      return getSlotAfter(medication.schedule, afterMs, travelStore.scheduleTimeZone)
+    }
+    return afterMs + (medication.durationHours || 0) * HOUR_MS
+  }
+
+  // When a patch put on at a time is due to be changed, if its medication changes on weekdays.
+  // A late change still counts for the weekday it was due on, so the next change stays on schedule;
+  // the patch is never left on past its wear time though. Without the replaced patch's due time,
+  // it counts for the last change day before it went on.
+  function getFixedChangeDueAt(medicationId: string, appliedAtMs: number, replacedDueAtMs: number | null = null) {
+    const medication = getMedication(medicationId)
+    if (medication?.deliveryKind !== 'patch' || medication.schedule.kind !== 'weekdays') return undefined
+    
+    // Medications saved before wear time covered the longest wait have the average instead
+    const maxWearHours = Math.max(medication.durationHours || 0, getLongestWeekdayGapHours(medication.schedule.weekdays))
+    const dueAtMs = getPatchChangeDueAt(medication.schedule, appliedAtMs, replacedDueAtMs, maxWearHours, travelStore.scheduleTimeZone)
+    return dueAtMs === null ? undefined : new Date(dueAtMs).toISOString()
+  }
+
+  // When the patch an application replaced was due to be changed, or null if it replaced none
+  function getReplacedDueAt(applicationId: string) {
+    return adherenceChanges.value.find(change => change.applicationId === applicationId)?.scheduledAt.getTime() ?? null
+  }
+
+  // When a patch application is due to be changed. Wear time is counted in absolute time,
+  // so a clock change or time zone doesn't shift it.
+  function getPatchChangeAt(app: DoseRecord) {
+    if (app.changeDueAt) return new Date(app.changeDueAt)
+    
+    const medication = getMedication(app.medicationId)
+    const appliedAtMs = new Date(app.takenAt).getTime()
+    const dueAt = getFixedChangeDueAt(app.medicationId, appliedAtMs)
+    return dueAt ? new Date(dueAt) : new Date(appliedAtMs + (medication?.durationHours || 0) * HOUR_MS)
+  }
+
+  // Work out the change times of worn patches again after their medication's schedule changes
+  function rescheduleWornPatches(medicationId: string) {
+    for (const app of applications.value) {
+      if (app.medicationId === medicationId && !app.removedAt) {
+        app.changeDueAt = getFixedChangeDueAt(medicationId, new Date(app.takenAt).getTime(), getReplacedDueAt(app.id))
+      }
+    }
+  }
+
+  // A late change of a patch on a weekday schedule, with the schedule moved to the day it was
+  // actually made. Null when the change was on time, was made on one of the weekdays anyway,
+  // has been settled already, or the patch is changed on an interval.
+  function getReanchorOption(applicationId: string) {
+    if (settledLateChanges.value.includes(applicationId)) return null
+    
+    const application = applications.value.find(app => app.id === applicationId)
+    const change = adherenceChanges.value.find(item => item.applicationId === applicationId)
+    const medication = application && getMedication(application.medicationId)
+    if (!change || change.onTime || medication?.schedule.kind !== 'weekdays') return null
+    
+    const timeZone = travelStore.scheduleTimeZone
+    const { weekdays, time } = medication.schedule
+    const shiftDays = getCalendarDaysBetween(change.scheduledAt.getTime(), change.changedAt.getTime(), timeZone)
+    if (shiftDays <= 0 || weekdays.includes(getZonedParts(change.changedAt.getTime(), timeZone).weekday)) return null
+    
+    return {
+      medicationId: medication.id,
+      lateDays: shiftDays,
+      currentSchedule: medication.schedule,
+      schedule: {
+        kind: 'weekdays',
+        weekdays: weekdays.map(day => (day + shiftDays) % 7).sort((a, b) => a - b),
+        time
+      } as MedicationSchedule
+    }
+  }
+
+  // Move a weekday schedule to the day a late change was made, so later changes fall on the
+  // same days of the week as that one
+  function reanchorSchedule(applicationId: string) {
+    const option = getReanchorOption(applicationId)
+    if (!option) {
+      throw new Error('This change was not late, so there is nothing to move')
+    }
+    
+    const medication = getMedication(option.medicationId)!
+    medication.schedule = option.schedule
+    rescheduleWornPatches(medication.id)
+    settleLateChange(applicationId)
+    
+    return medication
+  }
+
+  // Keep a weekday schedule as it is after a late change
+  function keepSchedule(applicationId: string) {
+    settleLateChange(applicationId)
+  }
+
+  // Remember a late change as settled, forgetting ones whose records have been deleted
+  function settleLateChange(applicationId: string) {
+    const applicationIds = new Set(applications.value.map(app => app.id))
+    const settled = settledLateChanges.value.filter(id => id !== applicationId && applicationIds.has(id))
+    settledLateChanges.value = [...settled, applicationId]
+  }
+
+  // Patches currently on the body, soonest change first
+  const activePatches = computed(() => {
+    const now = new Date()
+    
+    return applications.value
+      .filter(app => !app.removedAt)
+      .map(app => {
+        const medication = getMedication(app.medicationId)
+        const appliedAt = new Date(app.takenAt)
+        const changeAt = getPatchChangeAt(app)
+        
+        // Calculate time remaining
+        const timeRemaining = changeAt.getTime() - now.getTime()
+        const isExpired = timeRemaining <= 0
+        
+        return {
+          ...app,
+          medication,
+          appliedAt,
+          changeAt,
+          timeRemaining,
+          isExpired
+        }
+      })
+      .sort((a, b) => a.changeAt.getTime() - b.changeAt.getTime())
+  })
+
+  // Most recent dose of a medication
+  function getLastDose(medicationId: string) {
+    let last: DoseRecord | undefined
+    
+    for (const dose of doses.value) {
+      if (dose.medicationId === medicationId && (!last || dose.takenAt > last.takenAt)) {
+        last = dose
+      }
+    }
+    
+    return last
+  }
+
+  // Enabled medications other than patches with when each is next due, soonest first.
+  // A medication has no due time until its first dose is recorded.
+  const upcomingDoses = computed(() => {
+    const nowMs = Date.now()
+    const timeZone = travelStore.scheduleTimeZone
+    
+    return enabledMedications.value
+      .filter(medication => medication.deliveryKind !== 'patch')
+      .map(medication => {
+        const lastDose = getLastDose(medication.id)
+        const lastTakenAt = lastDose ? new Date(lastDose.takenAt) : null
+        const dueAtMs = getNextDueAt(medication.schedule, lastTakenAt ? lastTakenAt.getTime() : null, timeZone)
+        
+        return {
+          medicationId: medication.id,
+          medication,
+          lastTakenAt,
+          dueAt: dueAtMs === null ? null : new Date(dueAtMs),
+          timeRemaining: dueAtMs === null ? null : dueAtMs - nowMs,
+          isOverdue: dueAtMs !== null && dueAtMs <= nowMs
+        }
+      })
+      .sort((a, b) => (a.dueAt?.getTime() ?? Infinity) - (b.dueAt?.getTime() ?? Infinity))
+  })
+
+  // Late changes of worn patches waiting for a choice between keeping and moving their weekdays,
+  // one per medication
+  const pendingReanchors = computed(() => {
+    const pending = new Map<string, { applicationId: string } & NonNullable<ReturnType<typeof getReanchorOption>>>()
+    
+    for (const patch of activePatches.value) {
+      const option = getReanchorOption(patch.id)
+      if (option && !pending.has(option.medicationId)) {
+        pending.set(option.medicationId, { applicationId: patch.id, ...option })
+      }
+    }
+    
+    return [...pending.values()]
+  })
+
+  // Every recorded change measured against when the replaced patch was due, oldest first
+  const adherenceChanges = computed(() => {
+    return getAdherenceChanges(applications.value, app => getPatchChangeAt(app).getTime())
+  })
+
+  // When each enabled medication's stock runs out if it is taken on schedule. Every patch
+  // change uses as many patches as are worn at once right now; other medications use their
+  // units per dose. Medications not in use have no rate of use to forecast from.
+  const supplyForecasts = computed(() => {
+    const nowMs = Date.now()
+    
+    return enabledMedications.value.map(medication => {
+      const count = getStockCount(medication.id)
+      let nextDueMs: number | null = null
+      let unitsPerDose = 0
+      let intervalMs = 0
+      
+      if (medication.deliveryKind === 'patch') {
+        const worn = activePatches.value.filter(patch => patch.medicationId === medication.id)
+        if (worn.length > 0) {
+          nextDueMs = Math.min(...worn.map(patch => patch.changeAt.getTime()))
+          unitsPerDose = worn.length
+          intervalMs = DAY_MS / getDosesPerDay(medication.schedule)
+        }
+      } else {
+        const dueAt = upcomingDoses.value.find(item => item.medicationId === medication.id)?.dueAt
+        const dosesPerDay = getDosesPerDay(medication.schedule)
+        if (dueAt && dosesPerDay > 0) {
+          nextDueMs = dueAt.getTime()
+          unitsPerDose = getUnitsPerDose(medication.id)
+          intervalMs = DAY_MS / dosesPerDay
+        }
+      }
+      
+      if (nextDueMs === null || unitsPerDose <= 0 || intervalMs <= 0) {
+        return { medicationId: medication.id, count, runOutAt: null, daysLeft: null }
+      }
+      
+      const dosesLeft = Math.floor(count / unitsPerDose)
+      const runOutMs = Math.max(nowMs, nextDueMs) + dosesLeft * intervalMs
+      
+      return {
+        medicationId: medication.id,
+        count,
+        runOutAt: new Date(runOutMs),
+        daysLeft: (runOutMs - nowMs) / DAY_MS
+      }
+    })
+  })
+
+  // Get the supply forecast for a medication
+  function getSupplyForecast(medicationId: string) {
+    return supplyForecasts.value.find(forecast => forecast.medicationId === medicationId)
+  }
+
+  // Low, expiring and expired stock alerts, only for enabled medications whose stock is counted.
+  // Stock is low when it runs out sooner than the pharmacy needs to refill it.
+  const lowInventoryAlerts = computed(() => {
+    const prescriptionsStore = usePrescriptionsStore()
+    const now = new Date()
+    const warnBefore = new Date(now.getTime() + EXPIRY_WARNING_DAYS * DAY_MS)
+    
+    return inventory.value
+      .map(item => {
+        const medication = getMedication(item.medicationId)
+        const forecast = getSupplyForecast(item.medicationId)
+        const leadTimeDays = prescriptionsStore.getLeadTimeDays(item.medicationId)
+        const medicationLots = getLotsInUseOrder(item.medicationId)
+        const expiredCount = medicationLots
+          .filter(lot => isLotExpired(lot, now))
+          .reduce((sum, lot) => sum + lot.quantity, 0)
+        const expiringLots = medicationLots.filter(lot => !isLotExpired(lot, now) && isLotExpired(lot, warnBefore))
+        
+        return {
+          ...item,
+          medication,
+          isOut: item.count === 0,
+          isLow: forecast?.daysLeft != null && forecast.daysLeft <= leadTimeDays,
+          runOutAt: forecast?.runOutAt ?? null,
+          leadTimeDays,
+          expiredCount,
+          expiringCount: expiringLots.reduce((sum, lot) => sum + lot.quantity, 0),
+          nextExpiry: expiringLots[0]?.expiresAt ? new Date(expiringLots[0].expiresAt) : null
+        }
+      })
+      .filter(alert => {
+        return alert.medication?.enabled && getUnitsPerDose(alert.medicationId) > 0 &&
+          (alert.isOut || alert.isLow || alert.expiredCount > 0 || alert.expiringCount > 0)
+      })
+  })
+
+  // Dose delivered by an application; older records fall back to the patch's rate
+  function getApplicationDose(app: Pick<DoseRecord, 'medicationId' | 'doseMcgPerDay'>) {
+    return app.doseMcgPerDay ?? getMedication(app.medicationId)?.deliveryRateMcgPerDay
+  }
+
+  // Total estradiol delivery rate over time, one point per change in the total
+  const doseTimeline = computed(() => {
+    const events: { at: number, delta: number }[] = []
+    
+    for (const app of applications.value) {
+      const dose = getApplicationDose(app) || 0
+      if (dose === 0) continue
+      
+      events.push({ at: new Date(app.takenAt).getTime(), delta: dose })
+      if (app.removedAt) {
+        events.push({ at: new Date(app.removedAt).getTime(), delta: -dose })
+      }
+    }
+    
+    events.sort((a, b) => a.at - b.at)
+    
+    const timeline: { at: Date, totalMcgPerDay: number }[] = []
+    let total = 0
+    
+    for (let i = 0; i < events.length; i++) {
+      total += events[i].delta
+      
+      // Apply every event at the same instant before recording, so a change reads as one step
+      if (i + 1 < events.length && events[i + 1].at === events[i].at) continue
+      
+      const rounded = Math.round(total * 100) / 100
+      const previous = timeline[timeline.length - 1]
+      if (previous && previous.totalMcgPerDay === rounded) continue
+      
+      timeline.push({ at: new Date(events[i].at), totalMcgPerDay: rounded })
+    }
+    
+    return timeline
+  })
+
+  // Total dose across all patches being worn right now
+  const currentDose = computed(() => {
+    const total = activePatches.value.reduce((sum, patch) => sum + (getApplicationDose(patch) || 0), 0)
+    const unknownCount = activePatches.value.filter(patch => !getApplicationDose(patch)).length
+    
+    // The timeline ends at the current total, so its last step is when this dose started
+    const lastChange = doseTimeline.value[doseTimeline.value.length - 1]
+    
+    return {
+      totalMcgPerDay: Math.round(total * 100) / 100,
+      patchCount: activePatches.value.length,
+      unknownCount,
+      since: total > 0 && lastChange ? lastChange.at : null
+    }
+  })
+
+  // Serum model parameters for a patch, with defaults filled in
+  function getPkParams(medicationId: string): PharmacokineticParams {
+    return { ...DEFAULT_PK_PARAMS, ...getMedication(medicationId)?.pkParams }
+  }
+
+  // Upcoming changes if every worn patch is replaced on schedule with the same type.
+  // Overdue patches are assumed to be changed now.
+  function getProjectedChanges(untilMs: number) {
+    const nowMs = Date.now()
+    const changes: { at: Date, applicationId: string, medicationId: string }[] = []
+    
+    for (const patch of activePatches.value) {
+      let atMs: number | null = Math.max(patch.changeAt.getTime(), nowMs)
+      
+      while (atMs !== null && atMs <= untilMs) {
+        changes.push({ at: new Date(atMs), applicationId: patch.id, medicationId: patch.medicationId })
+        const nextMs = getNextChangeAfter(patch.medicationId, atMs)
+        atMs = nextMs !== null && nextMs > atMs ? nextMs : null
+      }
+    }
+    
+    return changes.sort((a, b) => a.at.getTime() - b.at.getTime())
+  }
+
+  // Estimated serum estradiol from recorded patches plus the projected schedule
+  function getSerumEstimate(fromMs: number, toMs: number) {
+    const nowMs = Date.now()
+    const intervals: DosingInterval[] = []
+    
+    for (const app of applications.value) {
+      const dose = getApplicationDose(app)
+      if (!dose) continue
+      
+      const startMs = new Date(app.takenAt).getTime()
+      const ratedEndMs = getPatchChangeAt(app).getTime()
+      
+      // Worn patches are projected to come off at their change time (or now, if overdue)
+      const endMs = app.removedAt
+        ? new Date(app.removedAt).getTime()
+        : Math.max(ratedEndMs, nowMs)
+      
+      intervals.push({ startMs, endMs, ratedEndMs, doseMcgPerDay: dose, params: getPkParams(app.medicationId) })
+    }
+    
+    for (const change of getProjectedChanges(toMs)) {
+      const medication = getMedication(change.medicationId)
+      const dose = medication?.deliveryRateMcgPerDay
+      if (!dose) continue
+      
+      const startMs = change.at.getTime()
+      const ratedEndMs = getNextChangeAfter(change.medicationId, startMs) ?? startMs
+      
+      intervals.push({ startMs, endMs: ratedEndMs, ratedEndMs, doseMcgPerDay: dose, params: getPkParams(change.medicationId) })
+    }
+    
+    return simulateSerumLevels(intervals, fromMs, toMs)
+  }
+
+  // All application sites, built-in first
+  const sites = computed(() => [...DEFAULT_SITES, ...customSites.value])
+
+  // Get a site by ID
+  function getSite(siteId: string) {
+    return sites.value.find(site => site.id === siteId)
+  }
+
+  // Resolve the site of an application; older records only have a free-text location
+  function getApplicationSiteId(app: PatchApplication) {
+    if (app.siteId) return app.siteId
+    
+    const location = app.location.trim().toLowerCase()
+    return sites.value.find(site => site.label.toLowerCase() === location)?.id
+  }
+
+  // Add a user-defined application site
+  function addCustomSite(label: string) {
+    const trimmed = label.trim()
+    
+    if (!trimmed) {
+      throw new Error('Please enter a name for the site')
+    }
+    
+    if (sites.value.some(site => site.label.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error('A site with this name already exists')
+    }
+    
+    const newSite: ApplicationSite = {
+      id: `custom-site-${Date.now()}`,
+      label: trimmed,
+      isCustom: true
+    }
+    
+    customSites.value.push(newSite)
+    
+    return newSite
+  }
+
+  // Delete a user-defined application site (history keeps its label)
+  function deleteCustomSite(siteId: string) {
+    customSites.value = customSites.value.filter(site => site.id !== siteId)
+  }
+
+  // When each site was last used: occupied sites are in use now, others rest from removal
+  const siteUsage = computed(() => {
+    const usage: Record<string, { lastUsedAt: Date, isOccupied: boolean }> = {}
+    const now = new Date()
+    
+    for (const app of applications.value) {
+      const siteId = getApplicationSiteId(app)
+      if (!siteId) continue
+      
+      const isOccupied = !app.removedAt
+      const lastUsedAt = isOccupied ? now : new Date(app.removedAt!)
+      const current = usage[siteId]
+      
+      if (current?.isOccupied) continue
+      
+      if (!current || isOccupied || lastUsedAt > current.lastUsedAt) {
+        usage[siteId] = { lastUsedAt, isOccupied }
+      }
+    }
+    
+    return usage
+  })
+
+  // Least recently used free site; sites never used come first, in list order
+  const suggestedSite = computed(() => {
+    const candidates = sites.value.filter(site => !siteUsage.value[site.id]?.isOccupied)
+    
+    if (candidates.length === 0) return undefined
+    
+    const neverUsed = candidates.find(site => !siteUsage.value[site.id])
+    if (neverUsed) return neverUsed
+    
+    return [...candidates].sort((a, b) => {
+      return siteUsage.value[a.id].lastUsedAt.getTime() - siteUsage.value[b.id].lastUsedAt.getTime()
+    })[0]
+  })
+
+  // Warning when a site is occupied or still inside its rest period, otherwise null
+  function getSiteRestWarning(siteId: string, at: Date = new Date()) {
+    const usage = siteUsage.value[siteId]
+    const site = getSite(siteId)
+    if (!usage || !site) return null
+    
+    if (usage.isOccupied) {
+      return `${site.label} already has a patch on it`
+    }
+    
+    const restedDays = (at.getTime() - usage.lastUsedAt.getTime()) / (24 * 60 * 60 * 1000)
+    
+    if (restedDays < siteRestDays.value) {
+      const days = Math.floor(restedDays)
+      const ago = days < 1 ? 'less than a day ago' : `${days} ${days === 1 ? 'day' : 'days'} ago`
+      return `${site.label} was last used ${ago}; the rest period is ${siteRestDays.value} days`
+    }
+    
+    return null
+  }
+
+  // Get image path for a medication (ensures compatibility with both imageUrl and imagePath properties)
+  function getMedicationImagePath(medicationId: string): string {
+    const medication = getMedication(medicationId)
+    // Use imageUrl or imagePath or fall back to the default
+    const imagePath = medication?.imageUrl || medication?.imagePath || '/images/patch-default.svg'
+    
+    // Make sure we're using the .svg extension
+    return imagePath.replace('.png', '.svg')
+  }
+
+  return {
+    medications,
+    enabledMedications,
+    enabledPatchTypes,
+    inventory,
+    lots,
+    doses,
+    applications,
+    activePatches,
+    upcomingDoses,
+    adherenceChanges,
+    lowInventoryAlerts,
+    supplyForecasts,
+    getSupplyForecast,
+    toggleMedicationEnabled,
+    editMedication,
+    addCustomMedication,
+    deleteCustomMedication,
+    getUnitsPerDose,
+    applyPatch,
+    logDose,
+    markPatchRemoved,
+    changePatch,
+    getPatchChangeAt,
+    getNextChangeAfter,
+    getReanchorOption,
+    reanchorSchedule,
+    keepSchedule,
+    pendingReanchors,
+    editDose,
+    undoDose,
+    addToInventory,
+    removeFromInventory,
+    removeFromLot,
+    reconcileInventory,
+    ledger,
+    canUndoTransaction,
+    undoTransaction,
+    getStockCount,
+    getLotsInUseOrder,
+    isLotExpired,
+    removeDose,
+    getMedication,
+    getLastDose,
+    getMedicationImagePath,
+    getApplicationDose,
+    doseTimeline,
+    currentDose,
+    getPkParams,
+    getProjectedChanges,
+    getSerumEstimate,
+    customSites,
+    siteRestDays,
+    sites,
+    siteUsage,
+    suggestedSite,
+    getSite,
+    getApplicationSiteId,
+    addCustomSite,
+    deleteCustomSite,
+    getSiteRestWarning
+  }
+}) 
\ No newline at end of file
@@ -1,23 +1,191 @@
 import { defineStore } from 'pinia'
-import { ref, watch } from 'vue'
-import { useLocalStorage } from '@vueuse/core'
-import { usePatchesStore } from './patches'
+import { ref, computed, watch } from 'vue'
+import { watchDebounced } from '@vueuse/core'
+import { useMedicationsStore } from './medications'
+import { useSyncStore } from './sync'
+import { useAuthStore } from './auth'
+import { usePrivacyStore } from './privacy'
+import { API_BASE_URL, apiRequest } from '@/utils/api'
+import { getTimedStatus, isLaterStatus, isInQuietHours, getQuietHoursEnd, type ReminderStatus } from '@/utils/reminders'
+import { getUnitName, type DeliveryKind } from '@/utils/medications'
+import { formatDateTime, formatDay, getDeviceTimeZone } from '@/utils/date'
+import {
+  registerServiceWorker,
+  getServiceWorkerRegistration,
+  postToServiceWorker,
+  onServiceWorkerMessage,
+  takePendingActions,
+  type ScheduledReminder
+} from '@/utils/serviceWorker'
 
 export interface NotificationPreferences {
   enableBrowserNotifications: boolean
   enableEmailNotifications: boolean
   notifyBeforeHours: number
   emailAddress?: string
+  snoozeMinutes: number
+  overdueNagMinutes: number // How often overdue reminders repeat
+  escalateAfterHours: number // Hours past due before a reminder escalates
+  quietHoursEnabled: boolean
+  quietHoursStart: string // "HH:MM"
+  quietHoursEnd: string // "HH:MM"
 }
 
+export type ReminderKind = 'patch-change' | 'dose' | 'out-of-stock' | 'low-stock' | 'expired-stock' | 'expiring-stock'
+
+// Where a reminder is in its lifecycle
+export interface ReminderState {
+  id: string
+  kind: ReminderKind
+  subjectId: string // Application ID for patch changes, otherwise the medication ID
+  label: string
+  status: ReminderStatus
+  dueAt: string // ISO date string
+  lastNotifiedAt?: string // ISO date string
+  nagCount: number
+  snoozedUntil?: string // ISO date string
+}
+
+// A change in a reminder's status
+export interface ReminderHistoryEntry {
+  id: string
+  reminderId: string
+  label: string
+  at: string // ISO date string
+  from: ReminderStatus
+  to: ReminderStatus | 'resolved'
+  note?: string
+}
+
+// Where the server stands on sending to the user's address
+export interface EmailStatus {
+  address: string | null
+  verified: boolean
+  unsubscribed: boolean
+}
+
+// An email the server sent or tried to send
+export interface EmailLogEntry {
+  id: string
+  kind: 'verification' | 'reminder' | 'escalation'
+  to: string
+  subject: string
+  status: 'sent' | 'failed'
+  error?: string
+  at: string // ISO date string
+}
+
+// Snooze lengths offered in settings, in minutes
+export const SNOOZE_OPTIONS_MINUTES = [15, 30, 60, 120, 240]
+
+export const REMINDER_STATUS_LABELS: Record<ReminderStatus | 'resolved', string> = {
+  'scheduled': 'Scheduled',
+  'pre-reminder-sent': 'Reminder sent',
+  'due': 'Due',
+  'overdue': 'Overdue',
+  'escalated': 'Escalated',
+  'acknowledged': 'Acknowledged',
+  'snoozed': 'Snoozed',
+  'resolved': 'Resolved'
+}
+
+// Shown in place of what a notification is about in disguised mode, so a lock screen gives nothing away
+const DISGUISED_NOTIFICATION = {
+  title: 'Reminder',
+  body: 'Open the app for details.',
+  changedAction: 'Done',
+  changedConfirmation: 'Saved'
+}
+
+// Neutral text and no app icon, keeping tags, data and actions working
+function disguiseNotification(options: NotificationOptions = {}): NotificationOptions {
+  return {
+    ...options,
+    body: DISGUISED_NOTIFICATION.body,
+    icon: undefined,
+    actions: options.actions?.map(action => {
+      return action.action === 'changed' ? { ...action, title: DISGUISED_NOTIFICATION.changedAction } : action
+    })
+  }
+}
+
+// A reminder with a due time: a patch change, or the next dose of another medication
+interface TimedReminder {
+  id: string
+  kind: 'patch-change' | 'dose'
+  subjectId: string
+  name: string
+  deliveryKind: DeliveryKind
+  dueAt: Date
+}
+
+// What a timed reminder says at each stage
+function getTimedReminderText(item: TimedReminder, stage: ReminderStatus, hoursFromDue: number) {
+  if (item.kind === 'patch-change') {
+    if (stage === 'pre-reminder-sent') {
+      return { title: 'Time to change your patch soon', body: `Your ${item.name} patch needs to be changed in about ${hoursFromDue} hours.` }
+    }
+    if (stage === 'due') {
+      return { title: 'Time to change your patch', body: `Your ${item.name} patch is due to be changed now.` }
+    }
+    return {
+      title: 'Patch change overdue',
+      body: hoursFromDue > 0
+        ? `Your ${item.name} patch is ${hoursFromDue} hours overdue. Please change it as soon as you can.`
+        : `Your ${item.name} patch is overdue. Please change it as soon as you can.`
+    }
+  }
+  
+  if (stage === 'pre-reminder-sent') {
+    return { title: 'Your next dose is coming up', body: `Your ${item.name} dose is due in about ${hoursFromDue} hours.` }
+  }
+  if (stage === 'due') {
+    return { title: 'Time to take your dose', body: `Your ${item.name} dose is due now.` }
+  }
+  return {
+    title: 'Dose overdue',
+    body: hoursFromDue > 0
+      ? `Your ${item.name} dose is ${hoursFromDue} hours overdue. Please take it as soon as you can.`
+      : `Your ${item.name} dose is overdue. Please take it as soon as you can.`
+  }
+}
+
+// Text for the "done" notification action and the confirmation after it
+function getDoneLabels(kind: TimedReminder['kind']) {
+  return kind === 'patch-change'
+    ? { changedAction: 'Mark as changed', changedConfirmation: 'Patch change saved' }
+    : { changedAction: 'Mark as taken', changedConfirmation: 'Dose saved' }
+}
+
+// How often an unacknowledged stock alert repeats
+const STOCK_RENOTIFY_MS = 24 * 60 * 60 * 1000
+
+// Reminder history entries kept
+const HISTORY_LIMIT = 200
+
 export const useNotificationsStore = defineStore('notifications', () => {
+  // Reminder state belongs to this device, so it is stored locally even when syncing
+  const persistence = useSyncStore().persistence
+
   // User notification preferences (persistent)
-  const preferences = useLocalStorage<NotificationPreferences>('notification-preferences', {
+  const preferences = persistence.useValue<NotificationPreferences>('notification-preferences', {
     enableBrowserNotifications: true,
     enableEmailNotifications: false,
     notifyBeforeHours: 24,
-    emailAddress: ''
-  })
+    emailAddress: '',
+    snoozeMinutes: 60,
+    overdueNagMinutes: 60,
+    escalateAfterHours: 6,
+    quietHoursEnabled: false,
+    quietHoursStart: '22:00',
+    quietHoursEnd: '07:00'
+  }, { mergeDefaults: true })
+
+  // Current state of each open reminder (persistent)
+  const reminders = persistence.useValue<ReminderState[]>('reminder-states', [])
+
+  // Status changes of reminders, oldest first (persistent)
+  const reminderHistory = persistence.useValue<ReminderHistoryEntry[]>('reminder-history', [])
 
   // Permission status for browser notifications
   const notificationPermission = ref<NotificationPermission>('default')
@@ -45,38 +213,490 @@ export const useNotificationsStore = defineStore('notifications', () => {
     }
   }
   
-  // Send browser notification
+  // Send browser notification, through the service worker when there is one
   function sendBrowserNotification(title: string, options?: NotificationOptions) {
     if (!preferences.value.enableBrowserNotifications || notificationPermission.value !== 'granted') {
       return
     }
     
+    if (usePrivacyStore().settings.disguised) {
+      title = DISGUISED_NOTIFICATION.title
+      options = disguiseNotification(options)
+    }
+    
     try {
-      new Notification(title, options)
+      const registration = getServiceWorkerRegistration()
+      if (registration) {
+        registration.showNotification(title, options).catch(error => {
+          console.error('Error creating notification:', error)
+        })
+      } else {
+        new Notification(title, options)
+      }
     } catch (error) {
       console.error('Error creating notification:', error)
     }
   }
   
-  // Mock function to send email notification
-  function sendEmailNotification(to: string, subject: string, body: string) {
-    if (!preferences.value.enableEmailNotifications || !preferences.value.emailAddress) {
+  // Whether non-urgent alerts should wait
+  function isQuietTime(at: Date) {
+    const { quietHoursEnabled, quietHoursStart, quietHoursEnd } = preferences.value
+    return quietHoursEnabled && isInQuietHours(at, quietHoursStart, quietHoursEnd)
+  }
+
+  // Move a reminder to a new status and record it in the history
+  function setReminderStatus(reminder: ReminderState, to: ReminderStatus | 'resolved', note?: string) {
+    reminderHistory.value.push({
+      id: `rh-${Date.now()}-${reminderHistory.value.length}`,
+      reminderId: reminder.id,
+      label: reminder.label,
+      at: new Date().toISOString(),
+      from: reminder.status,
+      to,
+      note
+    })
+    
+    if (reminderHistory.value.length > HISTORY_LIMIT) {
+      reminderHistory.value.splice(0, reminderHistory.value.length - HISTORY_LIMIT)
+    }
+    
+    if (to !== 'resolved') {
+      reminder.status = to
+    }
+  }
+
+  // Get a reminder, starting it as scheduled if it doesn't exist or its due time moved
+  function getOrCreateReminder(kind: ReminderKind, subjectId: string, label: string, dueAt: Date) {
+    const id = `${kind}-${subjectId}`
+    let reminder = reminders.value.find(item => item.id === id)
+    
+    if (reminder && reminder.dueAt !== dueAt.toISOString()) {
+      reminders.value = reminders.value.filter(item => item.id !== id)
+      reminder = undefined
+    }
+    
+    if (!reminder) {
+      reminders.value.push({ id, kind, subjectId, label, status: 'scheduled', dueAt: dueAt.toISOString(), nagCount: 0 })
+      reminder = reminders.value[reminders.value.length - 1]
+    }
+    
+    return reminder
+  }
+
+  // Close reminders of the given kinds whose subject no longer needs one
+  function resolveReminders(kinds: ReminderKind[], openIds: Set<string>) {
+    for (const reminder of reminders.value) {
+      // Only ones the user was told about are worth a history entry
+      if (kinds.includes(reminder.kind) && !openIds.has(reminder.id) && reminder.status !== 'scheduled') {
+        setReminderStatus(reminder, 'resolved')
+      }
+    }
+    
+    reminders.value = reminders.value.filter(reminder => !kinds.includes(reminder.kind) || openIds.has(reminder.id))
+  }
+
+  // Whether a snoozed reminder is still waiting
+  function isSnoozing(reminder: ReminderState, now: Date) {
+    return reminder.status === 'snoozed' && !!reminder.snoozedUntil && new Date(reminder.snoozedUntil).getTime() > now.getTime()
+  }
+
+  // Show a reminder and note when it was shown
+  function notifyReminder(reminder: ReminderState, title: string, options: NotificationOptions, now: Date) {
+    reminder.lastNotifiedAt = now.toISOString()
+    
+    sendBrowserNotification(title, {
+      icon: '/favicon.svg',
+      tag: reminder.id, // Replaces the previous notification for the same reminder
+      ...options
+    })
+  }
+
+  // Patch changes and doses that have a due time, from the medications store
+  const timedReminders = computed<TimedReminder[]>(() => {
+    const medicationsStore = useMedicationsStore()
+    
+    const patchChanges = medicationsStore.activePatches.map(patch => ({
+      id: `patch-change-${patch.id}`,
+      kind: 'patch-change' as const,
+      subjectId: patch.id,
+      name: patch.medication?.name || 'patch',
+      deliveryKind: 'patch' as const,
+      dueAt: patch.changeAt
+    }))
+    
+    const doses = medicationsStore.upcomingDoses.flatMap(item => {
+      if (!item.dueAt) return []
+      return [{
+        id: `dose-${item.medicationId}`,
+        kind: 'dose' as const,
+        subjectId: item.medicationId,
+        name: item.medication.name,
+        deliveryKind: item.medication.deliveryKind,
+        dueAt: item.dueAt
+      }]
+    })
+    
+    return [...patchChanges, ...doses]
+  })
+
+  // Move patch change and dose reminders along and send what is due
+  function evaluateTimedReminders(now: Date) {
+    const nowMs = now.getTime()
+    const openIds = new Set<string>()
+    const { notifyBeforeHours, overdueNagMinutes, escalateAfterHours } = preferences.value
+    const nagMs = overdueNagMinutes * 60 * 1000
+    
+    for (const item of timedReminders.value) {
+      const label = item.kind === 'patch-change' ? `${item.name} change` : `${item.name} dose`
+      const reminder = getOrCreateReminder(item.kind, item.subjectId, label, item.dueAt)
+      openIds.add(reminder.id)
+      
+      if (reminder.status === 'acknowledged' || isSnoozing(reminder, now)) continue
+      
+      const dueAtMs = item.dueAt.getTime()
+      const timed = getTimedStatus({
+        notifyAtMs: dueAtMs - notifyBeforeHours * 60 * 60 * 1000,
+        dueAtMs,
+        overdueAfterMs: nagMs,
+        escalateAfterMs: escalateAfterHours * 60 * 60 * 1000
+      }, nowMs)
+      const snoozeEnded = reminder.status === 'snoozed'
+      
+      if (timed === 'scheduled') {
+        if (snoozeEnded) setReminderStatus(reminder, 'scheduled', 'Snooze ended')
+        continue
+      }
+      
+      // Only the heads-up before the due time waits for quiet hours to end
+      if (timed === 'pre-reminder-sent' && isQuietTime(now)) continue
+      
+      const hoursFromDue = Math.abs(Math.round((nowMs - dueAtMs) / (60 * 60 * 1000)))
+      const actions = getServiceWorkerRegistration()
+        ? [
+            { action: 'changed', title: getDoneLabels(item.kind).changedAction },
+            { action: 'snooze', title: `Snooze ${preferences.value.snoozeMinutes} min` }
+          ]
+        : undefined
+      
+      if (snoozeEnded || isLaterStatus(timed, reminder.status)) {
+        setReminderStatus(reminder, timed, snoozeEnded ? 'Snooze ended' : undefined)
+      } else if ((timed === 'overdue' || timed === 'escalated') && reminder.lastNotifiedAt &&
+        nowMs - new Date(reminder.lastNotifiedAt).getTime() >= nagMs) {
+        reminder.nagCount++
+      } else {
+        continue
+      }
+      
+      const { title, body } = getTimedReminderText(item, timed, hoursFromDue)
+      
+      notifyReminder(reminder, title, {
+        body,
+        actions,
+        data: { reminderId: reminder.id },
+        renotify: timed !== 'pre-reminder-sent',
+        requireInteraction: timed === 'escalated'
+      }, now)
+    }
+    
+    resolveReminders(['patch-change', 'dose'], openIds)
+  }
+
+  // Send stock alerts, repeating daily until acknowledged or the stock problem is fixed
+  function evaluateStockReminders(now: Date) {
+    const medicationsStore = useMedicationsStore()
+    const openIds = new Set<string>()
+    
+    for (const alert of medicationsStore.lowInventoryAlerts) {
+      const name = alert.medication?.name || 'medication'
+      const deliveryKind = alert.medication?.deliveryKind ?? 'patch'
+      const unit = getUnitName(deliveryKind)
+      const units = getUnitName(deliveryKind, 2)
+      const Units = units.charAt(0).toUpperCase() + units.slice(1)
+      const alerts: { kind: ReminderKind, title: string, body: string }[] = []
+      
+      if (alert.isOut) {
+        alerts.push({
+          kind: 'out-of-stock',
+          title: `Out of ${units}!`,
+          body: `You're out of ${name} ${units}. Please refill your prescription soon.`
+        })
+      } else if (alert.isLow) {
+        alerts.push({
+          kind: 'low-stock',
+          title: `Low ${unit} inventory`,
+          body: alert.runOutAt
+            ? `Your ${name} ${units} will run out around ${formatDay(alert.runOutAt)}. Your pharmacy needs about ${alert.leadTimeDays} days to refill.`
+            : `You only have ${alert.count} ${name} ${getUnitName(deliveryKind, alert.count)} left. Consider refilling your prescription soon.`
+        })
+      }
+      
+      if (alert.expiredCount > 0) {
+        alerts.push({
+          kind: 'expired-stock',
+          title: `Expired ${units} in inventory`,
+          body: `${alert.expiredCount} of your ${name} ${units} are past their expiry date.`
+        })
+      } else if (alert.expiringCount > 0 && alert.nextExpiry) {
+        alerts.push({
+          kind: 'expiring-stock',
+          title: `${Units} expiring soon`,
+          body: `${alert.expiringCount} of your ${name} ${units} expire by ${formatDay(alert.nextExpiry)}. Use them first.`
+        })
+      }
+      
+      for (const { kind, title, body } of alerts) {
+        // Stock alerts have no due time of their own; they are due from when they first appear
+        const existing = reminders.value.find(item => item.id === `${kind}-${alert.medicationId}`)
+        const reminder = existing ?? getOrCreateReminder(kind, alert.medicationId, `${name}: ${title}`, now)
+        openIds.add(reminder.id)
+        
+        if (reminder.status === 'acknowledged' || isSnoozing(reminder, now) || isQuietTime(now)) continue
+        
+        const lastMs = reminder.lastNotifiedAt ? new Date(reminder.lastNotifiedAt).getTime() : 0
+        
+        if (reminder.status !== 'due') {
+          setReminderStatus(reminder, 'due', reminder.status === 'snoozed' ? 'Snooze ended' : undefined)
+        } else if (now.getTime() - lastMs < STOCK_RENOTIFY_MS) {
+          continue
+        } else {
+          reminder.nagCount++
+        }
+        
+        notifyReminder(reminder, title, { body }, now)
+      }
+    }
+    
+    resolveReminders(['out-of-stock', 'low-stock', 'expired-stock', 'expiring-stock'], openIds)
+  }
+
+  // Stop a reminder from repeating until its next occurrence
+  function acknowledgeReminder(reminderId: string) {
+    const reminder = reminders.value.find(item => item.id === reminderId)
+    
+    if (!reminder) {
+      throw new Error('Reminder not found')
+    }
+    
+    reminder.snoozedUntil = undefined
+    setReminderStatus(reminder, 'acknowledged')
+  }
+
+  // Hold a reminder back for a while, then send it again
+  function snoozeReminder(reminderId: string, until?: Date) {
+    const reminder = reminders.value.find(item => item.id === reminderId)
+    
+    if (!reminder) {
+      throw new Error('Reminder not found')
+    }
+    
+    const snoozedUntil = until ?? new Date(Date.now() + preferences.value.snoozeMinutes * 60 * 1000)
+    reminder.snoozedUntil = snoozedUntil.toISOString()
+    setReminderStatus(reminder, 'snoozed', `Until ${snoozedUntil.toLocaleTimeString()}`)
+  }
+
+  // Reminder for the change of an active patch
+  function getPatchReminder(applicationId: string) {
+    return reminders.value.find(item => item.id === `patch-change-${applicationId}`)
+  }
+
+  // Reminder for the next dose of a medication other than a patch
+  function getDoseReminder(medicationId: string) {
+    return reminders.value.find(item => item.id === `dose-${medicationId}`)
+  }
+
+  // Patch change and dose reminders for the service worker to show, even with the app closed.
+  // The worker keeps them unencrypted, so while the app lock is on they get the neutral text too.
+  const reminderSchedule = computed<ScheduledReminder[]>(() => {
+    if (!preferences.value.enableBrowserNotifications) return []
+    
+    const { notifyBeforeHours, snoozeMinutes, quietHoursEnabled, quietHoursStart, quietHoursEnd } = preferences.value
+    const privacyStore = usePrivacyStore()
+    const disguised = privacyStore.settings.disguised
+    const neutral = disguised || privacyStore.isLockEnabled
+    
+    return timedReminders.value
+      .filter(item => reminders.value.find(reminder => reminder.id === item.id)?.status !== 'acknowledged')
+      .map(item => {
+        const reminder = reminders.value.find(state => state.id === item.id)
+        const dueAt = item.dueAt.getTime()
+        let notifyAt = new Date(dueAt - notifyBeforeHours * 60 * 60 * 1000)
+        
+        if (reminder?.status === 'snoozed' && reminder.snoozedUntil) {
+          notifyAt = new Date(reminder.snoozedUntil)
+        } else if (quietHoursEnabled && notifyAt.getTime() < dueAt) {
+          // Hold the heads-up until quiet hours end, but never past the due time itself
+          notifyAt = new Date(Math.min(getQuietHoursEnd(notifyAt, quietHoursStart, quietHoursEnd).getTime(), dueAt))
+        }
+        
+        const isPatch = item.kind === 'patch-change'
+        return {
+          id: item.id,
+          title: neutral
+            ? DISGUISED_NOTIFICATION.title
+            : isPatch ? 'Time to change your patch soon' : 'Your next dose is coming up',
+          body: neutral
+            ? DISGUISED_NOTIFICATION.body
+            : isPatch
+              ? `Your ${item.name} patch needs to be changed at ${formatDateTime(item.dueAt)}.`
+              : `Your ${item.name} dose is due at ${formatDateTime(item.dueAt)}.`,
+          labels: neutral
+            ? { changedAction: DISGUISED_NOTIFICATION.changedAction, changedConfirmation: DISGUISED_NOTIFICATION.changedConfirmation }
+            : getDoneLabels(item.kind),
+          disguised,
+          dueAt,
+          notifyAt: notifyAt.getTime(),
+          notifiedAt: reminder?.lastNotifiedAt ? new Date(reminder.lastNotifiedAt).getTime() : undefined,
+          snoozeMinutes
+        }
+      })
+  })
+  
+  // What the server needs to send email reminders: the schedule in the user's time zone
+  const emailReminderSettings = computed(() => {
+    const {
+      enableEmailNotifications, emailAddress, notifyBeforeHours, escalateAfterHours,
+      quietHoursEnabled, quietHoursStart, quietHoursEnd
+    } = preferences.value
+    const disguised = usePrivacyStore().settings.disguised
+    
+    return {
+      preferences: {
+        enableEmailNotifications,
+        emailAddress: emailAddress || '',
+        notifyBeforeHours,
+        escalateAfterHours,
+        quietHoursEnabled,
+        quietHoursStart,
+        quietHoursEnd,
+        disguised
+      },
+      timeZone: getDeviceTimeZone(),
+      // Acknowledged reminders are left out so the server doesn't escalate them
+      reminders: timedReminders.value
+        .filter(item => reminders.value.find(reminder => reminder.id === item.id)?.status !== 'acknowledged')
+        .map(item => ({
+          // Patch changes keep the application ID the server already knows them by
+          id: item.kind === 'patch-change' ? item.subjectId : item.id,
+          // Disguised reminders don't say what they are for, so the server isn't told either
+          name: disguised ? '' : item.name,
+          deliveryKind: item.deliveryKind,
+          dueAt: item.dueAt.getTime()
+        }))
+    }
+  })
+  
+  // Where the server stands on the user's email address, when signed in to a backend
+  const emailStatus = ref<EmailStatus | null>(null)
+  
+  // Emails the server sent recently, newest first
+  const emailLog = ref<EmailLogEntry[]>([])
+  
+  // Upload the schedule so the server can email reminders while the app is closed
+  async function publishEmailReminders() {
+    const authStore = useAuthStore()
+    if (!API_BASE_URL || !authStore.session) return
+    
+    try {
+      await apiRequest('/reminders', { method: 'PUT', token: await authStore.getAccessToken(), body: emailReminderSettings.value })
+    } catch (error) {
+      console.error('Error publishing email reminders:', error)
+    }
+  }
+  
+  async function refreshEmailStatus() {
+    const authStore = useAuthStore()
+    if (!API_BASE_URL || !authStore.session) {
+      emailStatus.value = null
+      return
+    }
+    
+    emailStatus.value = await apiRequest<EmailStatus>('/email/status', { token: await authStore.getAccessToken() })
+  }
+  
+  async function refreshEmailLog() {
+    const authStore = useAuthStore()
+    if (!API_BASE_URL || !authStore.session) {
+      emailLog.value = []
       return
     }
     
-    // In a real application, this would call an API endpoint to send an email
-    console.log(`Email notification sent to ${to}:`, { subject, body })
+    const response = await apiRequest<{ entries: EmailLogEntry[] }>('/email/log', { token: await authStore.getAccessToken() })
+    emailLog.value = response.entries
+  }
+  
+  // Email a confirmation link; reminders go to the address once it is followed
+  async function requestEmailVerification(address: string) {
+    const authStore = useAuthStore()
+    if (!API_BASE_URL || !authStore.session) {
+      throw new Error('Sign in to a server account to get email reminders')
+    }
+    
+    emailStatus.value = await apiRequest<EmailStatus>('/email/verification', {
+      method: 'POST',
+      token: await authStore.getAccessToken(),
+      body: { email: address, disguised: usePrivacyStore().settings.disguised }
+    })
+    await refreshEmailLog()
+  }
+  
+  // Apply what the user did from notifications while the app was closed
+  async function applyPendingActions() {
+    const medicationsStore = useMedicationsStore()
+    
+    let actions
+    try {
+      actions = await takePendingActions()
+    } catch (error) {
+      console.error('Error reading notification actions:', error)
+      return
+    }
     
-    // For demo purposes, we'll show a browser notification instead
-    if (notificationPermission.value === 'granted') {
-      new Notification(`Email notification: ${subject}`, { body })
+    for (const action of actions) {
+      const item = timedReminders.value.find(reminder => reminder.id === action.reminderId)
+      
+      // Already done in the app, or the due time moved since the notification was shown
+      if (!item || item.dueAt.getTime() !== action.dueAt) continue
+      
+      if (action.type === 'snoozed') {
+        const reminder = reminders.value.find(state => state.id === item.id)
+        if (reminder && action.until && action.until > Date.now()) {
+          snoozeReminder(reminder.id, new Date(action.until))
+        }
+        continue
+      }
+      
+      try {
+        if (item.kind === 'dose') {
+          medicationsStore.logDose(item.subjectId, { takenAt: new Date(action.at) })
+          continue
+        }
+        
+        const patch = medicationsStore.activePatches.find(p => p.id === item.subjectId)
+        if (!patch) continue
+        
+        const site = medicationsStore.suggestedSite
+        medicationsStore.changePatch(
+          patch.id,
+          patch.medicationId,
+          site?.label || patch.location,
+          undefined,
+          { siteId: site?.id || patch.siteId, appliedAt: new Date(action.at) }
+        )
+      } catch (error) {
+        console.error('Error applying notification action:', error)
+        sendBrowserNotification(item.kind === 'dose' ? 'Could not record your dose' : 'Could not record your patch change', {
+          body: error instanceof Error ? error.message : 'Please record it in the app.',
+          icon: '/favicon.svg',
+          tag: `${item.id}-failed`
+        })
+      }
     }
   }
 
   // Schedule notification check
   function scheduleNotificationCheck() {
-    // In a real application, you might use a service worker for more reliable scheduling
-    // For now, we'll use a simple interval
+    // The service worker shows reminders while the app is closed; this covers the open tab
+    // and browsers without service workers
     const INTERVAL = 60000 // Check every minute
     
     // Initial check
@@ -93,73 +713,10 @@ export const useNotificationsStore = defineStore('notifications', () => {
 
   // Check for notifications that should be sent
   function checkForDueNotifications() {
-    const patchesStore = usePatchesStore()
-    const { activePatches } = patchesStore
-    
     const now = new Date()
-    const notifyBeforeMs = preferences.value.notifyBeforeHours * 60 * 60 * 1000
-    
-    for (const patch of activePatches) {
-      // Skip if already expired
-      if (patch.isExpired) continue
-      
-      // Calculate time until change is needed
-      const timeUntilChange = patch.changeAt.getTime() - now.getTime()
-      
-      // If change is due within notification window and not expired
-      if (timeUntilChange > 0 && timeUntilChange <= notifyBeforeMs) {
-        // Format time until change
-        const hoursUntilChange = Math.ceil(timeUntilChange / (60 * 60 * 1000))
-        
-        // Send browser notification
-        if (preferences.value.enableBrowserNotifications && notificationPermission.value === 'granted') {
-          sendBrowserNotification(
-            'Time to change your patch soon',
-            {
-              body: `Your ${patch.patchType?.name} patch will need to be changed in approximately ${hoursUntilChange} hours.`,
-              icon: '/favicon.svg',
-              tag: `patch-reminder-${patch.id}` // Prevent duplicate notifications
-            }
-          )
-        }
-        
-        // Send email notification
-        if (preferences.value.enableEmailNotifications && preferences.value.emailAddress) {
-          sendEmailNotification(
-            preferences.value.emailAddress,
-            'Estrogen Patch Change Reminder',
-            `Your ${patch.patchType?.name} patch will need to be changed in approximately ${hoursUntilChange} hours.`
-          )
-        }
-      }
-    }
-    
-    // Check for low inventory
-    const { lowInventoryAlerts } = patchesStore
     
-    for (const alert of lowInventoryAlerts) {
-      if (alert.isOut) {
-        // Out of stock notification
-        sendBrowserNotification(
-          'Out of patches!',
-          {
-            body: `You're out of ${alert.patchType?.name} patches. Please refill your prescription soon.`,
-            icon: '/favicon.svg',
-            tag: `inventory-out-${alert.patchTypeId}` // Prevent duplicate notifications
-          }
-        )
-      } else if (preferences.value.enableBrowserNotifications && notificationPermission.value === 'granted') {
-        // Low stock notification
-        sendBrowserNotification(
-          'Low patch inventory',
-          {
-            body: `You only have ${alert.count} ${alert.patchType?.name} patches left. Consider refilling your prescription soon.`,
-            icon: '/favicon.svg',
-            tag: `inventory-low-${alert.patchTypeId}` // Prevent duplicate notifications
-          }
-        )
-      }
-    }
+    evaluateTimedReminders(now)
+    evaluateStockReminders(now)
   }
 
   // Update notification settings
@@ -173,23 +730,53 @@ export const useNotificationsStore = defineStore('notifications', () => {
   }
 
   // Initialize on first load
-  function init() {
+  async function init() {
     // Check notification permission
     if ('Notification' in window) {
       notificationPermission.value = Notification.permission
     }
     
+    if (await registerServiceWorker()) {
+      // Keep the worker's copy of the schedule current
+      watch(reminderSchedule, reminders => {
+        postToServiceWorker({ type: 'schedule', reminders })
+      }, { immediate: true })
+      
+      onServiceWorkerMessage(message => {
+        if (message.type === 'actions-pending') {
+          applyPendingActions()
+        }
+      })
+      
+      await applyPendingActions()
+    }
+    
     // Schedule notification checks
     scheduleNotificationCheck()
+    
+    // Keep the server's copy of the schedule current
+    if (API_BASE_URL) {
+      watchDebounced(emailReminderSettings, publishEmailReminders, { debounce: 5000, immediate: true, deep: true })
+    }
   }
 
   return {
     preferences,
     notificationPermission,
+    reminders,
+    reminderHistory,
     init,
+    acknowledgeReminder,
+    snoozeReminder,
+    getPatchReminder,
+    getDoseReminder,
     requestNotificationPermission,
     updateNotificationPreferences,
+    emailStatus,
+    emailLog,
     sendBrowserNotification,
-    sendEmailNotification
+    refreshEmailStatus,
+    refreshEmailLog,
+    requestEmailVerification
   }
 }) 
\ No newline at end of file
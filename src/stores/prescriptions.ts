@@ -0,0 +1,130 @@
+import { defineStore } from 'pinia'
+import { watch } from 'vue'
+import { useUserStorage } from '@/utils/userStorage'
+import { upgradeLegacyRecord } from '@/utils/medications'
+
+export interface Prescription {
+  id: string
+  medicationId: string
+  prescriber?: string
+  pharmacy?: string
+  quantityPerFill: number
+  refillsRemaining: number
+  lastFillDate?: string // ISO date string
+  earliestRefillDate?: string // ISO date string
+  leadTimeDays: number // How far ahead the pharmacy needs the refill request
+  notes?: string
+}
+
+export type PrescriptionInput = Omit<Prescription, 'id'>
+
+// Lead time assumed for medications without a prescription
+export const DEFAULT_REFILL_LEAD_DAYS = 7
+
+export const usePrescriptionsStore = defineStore('prescriptions', () => {
+  // Prescriptions (persistent)
+  const prescriptions = useUserStorage<Prescription[]>('prescriptions', [])
+
+  // Prescriptions saved before medications replaced patch types name a patchTypeId
+  watch(prescriptions, stored => {
+    if (stored.some(rx => !rx.medicationId)) {
+      prescriptions.value = stored.map(rx => rx.medicationId ? rx : upgradeLegacyRecord<Prescription>({ ...rx }))
+    }
+  }, { immediate: true })
+
+  // Validate prescription fields
+  function validatePrescription(data: PrescriptionInput) {
+    if (!data.medicationId) {
+      throw new Error('Please select a medication')
+    }
+
+    if (!Number.isInteger(data.quantityPerFill) || data.quantityPerFill < 1) {
+      throw new Error('Quantity per fill must be a whole number of at least 1')
+    }
+
+    if (!Number.isInteger(data.refillsRemaining) || data.refillsRemaining < 0) {
+      throw new Error('Refills remaining must be a whole number')
+    }
+
+    if (!Number.isFinite(data.leadTimeDays) || data.leadTimeDays < 0) {
+      throw new Error('Lead time must be 0 days or more')
+    }
+  }
+
+  // Add a prescription
+  function addPrescription(data: PrescriptionInput) {
+    validatePrescription(data)
+
+    const newPrescription: Prescription = {
+      ...data,
+      id: `rx-${Date.now()}`
+    }
+
+    prescriptions.value.push(newPrescription)
+
+    return newPrescription
+  }
+
+  // Update an existing prescription
+  function updatePrescription(prescriptionId: string, data: PrescriptionInput) {
+    const index = prescriptions.value.findIndex(rx => rx.id === prescriptionId)
+
+    if (index === -1) {
+      throw new Error('Prescription not found')
+    }
+
+    validatePrescription(data)
+
+    prescriptions.value[index] = { ...data, id: prescriptionId }
+
+    return prescriptions.value[index]
+  }
+
+  // Delete a prescription
+  function deletePrescription(prescriptionId: string) {
+    prescriptions.value = prescriptions.value.filter(rx => rx.id !== prescriptionId)
+  }
+
+  // Record that a prescription was filled, using up one refill
+  function recordFill(prescriptionId: string, filledAt: Date = new Date()) {
+    const prescription = prescriptions.value.find(rx => rx.id === prescriptionId)
+
+    if (!prescription) {
+      throw new Error('Prescription not found')
+    }
+
+    if (prescription.refillsRemaining <= 0 && prescription.lastFillDate) {
+      throw new Error('No refills remaining on this prescription')
+    }
+
+    // The first fill of a new prescription doesn't use a refill
+    if (prescription.lastFillDate) {
+      prescription.refillsRemaining--
+    }
+
+    prescription.lastFillDate = filledAt.toISOString()
+    prescription.earliestRefillDate = undefined
+
+    return prescription
+  }
+
+  // Prescription for a medication (the first one, if there are several)
+  function getPrescriptionForMedication(medicationId: string) {
+    return prescriptions.value.find(rx => rx.medicationId === medicationId)
+  }
+
+  // Pharmacy lead time for a medication
+  function getLeadTimeDays(medicationId: string) {
+    return getPrescriptionForMedication(medicationId)?.leadTimeDays ?? DEFAULT_REFILL_LEAD_DAYS
+  }
+
+  return {
+    prescriptions,
+    addPrescription,
+    updatePrescription,
+    deletePrescription,
+    recordFill,
+    getPrescriptionForMedication,
+    getLeadTimeDays
+  }
+})
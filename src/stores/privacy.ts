@@ -0,0 +1,148 @@
+import { defineStore } from 'pinia'
+import { computed, watch } from 'vue'
+import { useLocalStorage, until } from '@vueuse/core'
+import {
+  PRIVACY_SETTINGS_KEY,
+  APP_LOCK_KEY,
+  isAppLockEnabled,
+  isStorageLocked,
+  unlockStorage,
+  enableAppLock,
+  changeAppLockPassphrase,
+  disableAppLock,
+  flushSecureStorage
+} from '@/utils/secureStorage'
+
+export interface PrivacySettings {
+  disguised: boolean // Hide the app name and what reminders are about
+  autoLockMinutes: number // Lock after this long without any activity
+}
+
+export const APP_NAME = "Luna's EstroPad Tracker"
+
+// Shown in place of the app name in disguised mode
+export const DISGUISED_APP_NAME = 'Planner'
+
+export const AUTO_LOCK_OPTIONS_MINUTES = [1, 5, 15, 30, 60]
+
+export const MIN_PASSPHRASE_LENGTH = 8
+
+// How often to check for inactivity
+const AUTO_LOCK_CHECK_MS = 15 * 1000
+
+// Activity that keeps the app unlocked
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart']
+
+export const usePrivacyStore = defineStore('privacy', () => {
+  // Device-wide and unencrypted, since the lock screen needs it
+  const settings = useLocalStorage<PrivacySettings>(PRIVACY_SETTINGS_KEY, {
+    disguised: false,
+    autoLockMinutes: 5
+  }, { mergeDefaults: true })
+
+  const isLockEnabled = computed(() => isAppLockEnabled())
+  const isLocked = computed(() => isStorageLocked())
+
+  const appName = computed(() => settings.value.disguised ? DISGUISED_APP_NAME : APP_NAME)
+
+  let lastActivityAt = Date.now()
+  let autoLockTimer: ReturnType<typeof setInterval> | null = null
+
+  // Resolves once stored data can be read
+  async function untilUnlocked() {
+    await until(isLocked).toBe(false)
+  }
+
+  async function unlock(passphrase: string) {
+    await unlockStorage(passphrase)
+    lastActivityAt = Date.now()
+  }
+
+  // Lock now. Reloading drops every decrypted value the page holds.
+  async function lock() {
+    if (!isLockEnabled.value) return
+    await flushSecureStorage()
+    window.location.reload()
+  }
+
+  function validatePassphrase(passphrase: string) {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long`)
+    }
+  }
+
+  async function enableLock(passphrase: string) {
+    validatePassphrase(passphrase)
+    await enableAppLock(passphrase)
+    lastActivityAt = Date.now()
+  }
+
+  async function changePassphrase(currentPassphrase: string, newPassphrase: string) {
+    validatePassphrase(newPassphrase)
+    await changeAppLockPassphrase(currentPassphrase, newPassphrase)
+  }
+
+  async function disableLock(passphrase: string) {
+    await disableAppLock(passphrase)
+  }
+
+  function updateSettings(newSettings: Partial<PrivacySettings>) {
+    settings.value = { ...settings.value, ...newSettings }
+  }
+
+  // Forget everything stored on this device, for when the passphrase is lost
+  function eraseDevice() {
+    localStorage.clear()
+    window.location.reload()
+  }
+
+  function recordActivity() {
+    lastActivityAt = Date.now()
+  }
+
+  function checkInactivity() {
+    if (isLockEnabled.value && Date.now() - lastActivityAt >= settings.value.autoLockMinutes * 60 * 1000) {
+      lock()
+    }
+  }
+
+  // Start locking after inactivity, and follow lock changes made in other tabs
+  function init() {
+    if (autoLockTimer) return
+
+    for (const event of ACTIVITY_EVENTS) {
+      window.addEventListener(event, recordActivity, { passive: true })
+    }
+    // Timers are slowed down in background tabs, so check as soon as the app is back
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') checkInactivity()
+    })
+    window.addEventListener('storage', event => {
+      if (event.key === APP_LOCK_KEY || event.key === null) {
+        window.location.reload()
+      }
+    })
+    autoLockTimer = setInterval(checkInactivity, AUTO_LOCK_CHECK_MS)
+  }
+
+  // Keep the tab title in step with the app name
+  watch(appName, name => {
+    document.title = name
+  }, { immediate: true })
+
+  return {
+    settings,
+    isLockEnabled,
+    isLocked,
+    appName,
+    untilUnlocked,
+    unlock,
+    lock,
+    enableLock,
+    changePassphrase,
+    disableLock,
+    updateSettings,
+    eraseDevice,
+    init
+  }
+})
@@ -0,0 +1,207 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import { useMedicationsStore, type PatchApplication } from './medications'
+import { useSyncStore } from './sync'
+import {
+  MAX_SEVERITY,
+  summarizeProblems,
+  type AdhesionQuality,
+  type ReactionType
+} from '@/utils/reactions'
+import { onWriteError } from '@/utils/secureStorage'
+import { userStorageKey } from '@/utils/userStorage'
+
+// How the skin and a patch were doing, noted while it was worn or after it came off
+export interface SkinObservation {
+  id: string
+  doseId: string // The patch application observed
+  observedAt: string // ISO date string
+  reactions: ReactionType[]
+  severity: number // 0 (no reaction) to MAX_SEVERITY
+  adhesion: AdhesionQuality
+  cameOffEarly: boolean
+  notes?: string
+}
+
+// Fields of an observation, plus its photo as a data URL (null to remove it when editing)
+export type SkinObservationInput = Omit<SkinObservation, 'id'> & { photo?: string | null }
+
+const PHOTOS_KEY = 'skin-observation-photos'
+
+export const useReactionsStore = defineStore('reactions', () => {
+  const persistence = useSyncStore().persistence
+  const medicationsStore = useMedicationsStore()
+
+  // Observations sync with the rest of the history (persistent)
+  const observations = persistence.useCollection<SkinObservation>('skin-observations', [])
+
+  // Photos by observation ID. They never leave this device, so they are kept apart from the synced records.
+  const photos = persistence.useValue<Record<string, string>>(PHOTOS_KEY, {})
+
+  // Why the last photo couldn't be kept, until the page has shown it
+  const photoError = ref<string | null>(null)
+
+  // The photo saved last and the one it replaced, to go back to if it doesn't fit
+  let pendingPhoto: { observationId: string, previous?: string } | null = null
+
+  // Photos are only written after saving, so one too big for the space left fails afterwards.
+  // Put back what was there rather than lose it silently on the next reload.
+  onWriteError((key, error) => {
+    if (key !== userStorageKey(PHOTOS_KEY) || !pendingPhoto) return
+
+    const { observationId, previous } = pendingPhoto
+    const { [observationId]: _, ...rest } = photos.value
+    pendingPhoto = null
+    photos.value = previous ? { ...rest, [observationId]: previous } : rest
+    photoError.value = error instanceof DOMException && error.name === 'QuotaExceededError'
+      ? 'The photo could not be kept because storage on this device is full. The observation was saved without it.'
+      : 'The photo could not be kept. The observation was saved without it.'
+  })
+
+  // Validate an observation before saving it
+  function validateObservation(data: SkinObservationInput) {
+    const application = medicationsStore.applications.find(app => app.id === data.doseId)
+    if (!application) {
+      throw new Error('Please select a patch application')
+    }
+
+    const observedAt = new Date(data.observedAt)
+    if (isNaN(observedAt.getTime())) {
+      throw new Error('Please enter a valid observation time')
+    }
+
+    if (observedAt.getTime() > Date.now()) {
+      throw new Error('Observation time cannot be in the future')
+    }
+
+    if (observedAt.getTime() < new Date(application.takenAt).getTime()) {
+      throw new Error('Observation time cannot be before the patch was applied')
+    }
+
+    if (!Number.isInteger(data.severity) || data.severity < 0 || data.severity > MAX_SEVERITY) {
+      throw new Error(`Severity must be between 0 and ${MAX_SEVERITY}`)
+    }
+
+    return application
+  }
+
+  // A patch noted as having come off early is taken off at that time, if it was still marked as worn
+  function recordEarlyRemoval(application: PatchApplication, data: SkinObservationInput) {
+    if (data.cameOffEarly && !application.removedAt) {
+      medicationsStore.markPatchRemoved(application.id, 'fell-off', new Date(data.observedAt))
+    }
+  }
+
+  // Keep or drop the photo of an observation
+  function savePhoto(observationId: string, photo: string | null | undefined) {
+    if (photo === undefined) return
+
+    pendingPhoto = photo ? { observationId, previous: photos.value[observationId] } : null
+    const { [observationId]: _, ...rest } = photos.value
+    photos.value = photo ? { ...rest, [observationId]: photo } : rest
+  }
+
+  // Record an observation of a patch application
+  function addObservation(data: SkinObservationInput) {
+    const application = validateObservation(data)
+    const { photo, ...fields } = data
+
+    const newObservation: SkinObservation = {
+      ...fields,
+      id: Date.now().toString(),
+      notes: fields.notes?.trim() || undefined
+    }
+
+    recordEarlyRemoval(application, data)
+    observations.value.push(newObservation)
+    savePhoto(newObservation.id, photo)
+
+    return newObservation
+  }
+
+  // Correct an observation
+  function updateObservation(observationId: string, data: SkinObservationInput) {
+    const observation = observations.value.find(item => item.id === observationId)
+    if (!observation) {
+      throw new Error('Observation not found')
+    }
+
+    const application = validateObservation(data)
+    const { photo, ...fields } = data
+
+    recordEarlyRemoval(application, data)
+    Object.assign(observation, fields, { notes: fields.notes?.trim() || undefined })
+    savePhoto(observationId, photo)
+
+    return observation
+  }
+
+  // Remove an observation and its photo
+  function removeObservation(observationId: string) {
+    observations.value = observations.value.filter(item => item.id !== observationId)
+    savePhoto(observationId, null)
+  }
+
+  // Remove every observation of an application, for when its record is deleted
+  function removeObservationsFor(doseId: string) {
+    for (const observation of observations.value.filter(item => item.doseId === doseId)) {
+      removeObservation(observation.id)
+    }
+  }
+
+  // Observations of an application, oldest first
+  function getObservations(doseId: string) {
+    return observations.value
+      .filter(observation => observation.doseId === doseId)
+      .sort((a, b) => new Date(a.observedAt).getTime() - new Date(b.observedAt).getTime())
+  }
+
+  // Photo of an observation, if one was taken on this device
+  function getPhoto(observationId: string) {
+    return photos.value[observationId] ?? null
+  }
+
+  function clearPhotoError() {
+    photoError.value = null
+  }
+
+  // Observations newest first
+  const sortedObservations = computed(() => {
+    return [...observations.value].sort((a, b) => new Date(b.observedAt).getTime() - new Date(a.observedAt).getTime())
+  })
+
+  // Which sites, brands and patch types cause the most problems
+  const problemReport = computed(() => {
+    const applications = medicationsStore.applications
+
+    return {
+      bySite: summarizeProblems(applications, observations.value, app => {
+        const site = medicationsStore.getSite(medicationsStore.getApplicationSiteId(app) ?? '')
+        // Older records only have free text, grouped as written
+        return site ? { key: site.id, label: site.label } : { key: `location:${app.location.trim().toLowerCase()}`, label: app.location.trim() }
+      }),
+      byBrand: summarizeProblems(applications, observations.value, app => {
+        const brand = medicationsStore.getMedication(app.medicationId)?.brand?.trim()
+        return brand ? { key: brand.toLowerCase(), label: brand } : null
+      }),
+      byMedication: summarizeProblems(applications, observations.value, app => {
+        const medication = medicationsStore.getMedication(app.medicationId)
+        return { key: app.medicationId, label: medication?.name || 'Unknown' }
+      })
+    }
+  })
+
+  return {
+    observations,
+    sortedObservations,
+    problemReport,
+    addObservation,
+    updateObservation,
+    removeObservation,
+    removeObservationsFor,
+    getObservations,
+    getPhoto,
+    photoError,
+    clearPhotoError
+  }
+})
@@ -0,0 +1,74 @@
+import { defineStore } from 'pinia'
+import { computed, markRaw, watch } from 'vue'
+import { watchDebounced } from '@vueuse/core'
+import { useAuthStore } from './auth'
+import { API_BASE_URL } from '@/utils/api'
+import { createLocalStorageAdapter, type PersistenceAdapter } from '@/utils/persistence'
+import { createRestSyncAdapter, type SyncConflict } from '@/utils/sync'
+
+// How often to pull changes made on other devices
+const SYNC_INTERVAL_MS = 5 * 60 * 1000
+
+// Wait for a pause in editing before pushing local changes
+const PUSH_DEBOUNCE_MS = 2000
+
+export const useSyncStore = defineStore('sync', () => {
+  const authStore = useAuthStore()
+
+  // Sync with the backend when there is one; otherwise everything stays in this browser
+  const syncAdapter = API_BASE_URL ? createRestSyncAdapter(() => authStore.getAccessToken()) : null
+  const persistence: PersistenceAdapter = markRaw(syncAdapter ?? createLocalStorageAdapter())
+
+  const isEnabled = !!syncAdapter
+  const status = computed(() => syncAdapter?.state.status ?? 'idle')
+  const lastSyncedAt = computed(() => syncAdapter?.state.lastSyncedAt ?? null)
+  const error = computed(() => syncAdapter?.state.error ?? null)
+  const pendingCount = computed(() => syncAdapter?.pendingCount.value ?? 0)
+  const conflicts = computed(() => syncAdapter?.conflicts.value ?? [])
+
+  // Sync now, if signed in
+  async function syncNow() {
+    if (!syncAdapter || !authStore.session) return
+    await syncAdapter.sync()
+  }
+
+  // Pick which copy of a conflicting record to keep, then sync the result
+  function resolveConflict(conflict: SyncConflict, keep: 'local' | 'remote') {
+    syncAdapter?.resolveConflict(conflict, keep)
+    syncNow()
+  }
+
+  // Start syncing once the stores are loaded
+  function init() {
+    if (!syncAdapter) return
+
+    // Push changes shortly after they're made, and sync whenever someone signs in
+    watchDebounced(pendingCount, count => {
+      if (count > 0) syncNow()
+    }, { debounce: PUSH_DEBOUNCE_MS })
+    watch(() => authStore.user?.id, syncNow)
+
+    // Catch up when the connection comes back, and every few minutes
+    window.addEventListener('online', syncNow)
+    const intervalId = setInterval(syncNow, SYNC_INTERVAL_MS)
+
+    window.addEventListener('beforeunload', () => {
+      clearInterval(intervalId)
+    })
+
+    syncNow()
+  }
+
+  return {
+    persistence,
+    isEnabled,
+    status,
+    lastSyncedAt,
+    error,
+    pendingCount,
+    conflicts,
+    init,
+    syncNow,
+    resolveConflict
+  }
+})
@@ -0,0 +1,70 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import { useSyncStore } from './sync'
+import { getDeviceTimeZone, isValidTimeZone } from '@/utils/date'
+
+export interface TravelSettings {
+  enabled: boolean // Keep schedules on home time while away
+  homeTimeZone: string // IANA time zone name
+}
+
+export const useTravelStore = defineStore('travel', () => {
+  // Travel mode describes where this device is, so it is stored locally even when syncing
+  const persistence = useSyncStore().persistence
+
+  // Travel settings (persistent)
+  const settings = persistence.useValue<TravelSettings>('travel-settings', () => ({
+    enabled: false,
+    homeTimeZone: getDeviceTimeZone()
+  }), { mergeDefaults: true })
+
+  // Time zone the device is set to, which changes when travelling
+  const deviceTimeZone = ref(getDeviceTimeZone())
+
+  // Whether travel mode is on and the device is in a different time zone from home
+  const isTravelling = computed(() => settings.value.enabled && settings.value.homeTimeZone !== deviceTimeZone.value)
+
+  // Time zone that times-of-day schedules follow: home while travel mode is on, otherwise wherever the device is
+  const scheduleTimeZone = computed(() => settings.value.enabled ? settings.value.homeTimeZone : deviceTimeZone.value)
+
+  // Update travel settings
+  function updateSettings(newSettings: Partial<TravelSettings>) {
+    if (newSettings.homeTimeZone !== undefined && !isValidTimeZone(newSettings.homeTimeZone)) {
+      throw new Error('Unknown time zone')
+    }
+
+    settings.value = { ...settings.value, ...newSettings }
+  }
+
+  // Make this device's current time zone home
+  function setHomeToDevice() {
+    refreshDeviceTimeZone()
+    updateSettings({ homeTimeZone: deviceTimeZone.value })
+  }
+
+  function refreshDeviceTimeZone() {
+    const timeZone = getDeviceTimeZone()
+    if (timeZone !== deviceTimeZone.value) {
+      deviceTimeZone.value = timeZone
+    }
+  }
+
+  // Notice time zone changes, which usually happen while the app is in the background
+  function init() {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') refreshDeviceTimeZone()
+    })
+    window.addEventListener('focus', refreshDeviceTimeZone)
+  }
+
+  return {
+    settings,
+    deviceTimeZone,
+    isTravelling,
+    scheduleTimeZone,
+    updateSettings,
+    setHomeToDevice,
+    refreshDeviceTimeZone,
+    init
+  }
+})
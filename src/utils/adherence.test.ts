@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { groupByPeriod, groupByWeekday, type AdherenceChange } from './adherence'
+
+const NEW_YORK = 'America/New_York'
+const BERLIN = 'Europe/Berlin'
+
+// A change due at an instant, made on time
+function changeDueAt(ms: number): AdherenceChange {
+  return {
+    applicationId: 'b',
+    previousApplicationId: 'a',
+    medicationId: 'estradiol',
+    scheduledAt: new Date(ms),
+    changedAt: new Date(ms),
+    latenessMs: 0,
+    onTime: true
+  }
+}
+
+// Monday 1 June 2026 00:30 in Berlin is still Sunday 31 May in New York
+const changes = [changeDueAt(Date.UTC(2026, 4, 31, 22, 30))]
+
+describe('groupByPeriod', () => {
+  it('puts a change in the week and month of the schedule zone', () => {
+    expect(groupByPeriod(changes, 'week', BERLIN)).toMatchObject([{ key: '2026-06-01', label: '6/1' }])
+    expect(groupByPeriod(changes, 'week', NEW_YORK)).toMatchObject([{ key: '2026-05-25', label: '5/25' }])
+    expect(groupByPeriod(changes, 'month', BERLIN)).toMatchObject([{ key: '2026-06', label: 'Jun 26' }])
+    expect(groupByPeriod(changes, 'month', NEW_YORK)).toMatchObject([{ key: '2026-05', label: 'May 26' }])
+  })
+})
+
+describe('groupByWeekday', () => {
+  it('counts a change on the weekday of the schedule zone', () => {
+    expect(groupByWeekday(changes, BERLIN)[1]).toMatchObject({ label: 'Mon', total: 1 })
+    expect(groupByWeekday(changes, NEW_YORK)[0]).toMatchObject({ label: 'Sun', total: 1 })
+  })
+})
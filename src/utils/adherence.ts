@@ -0,0 +1,262 @@
+import { getDeviceTimeZone, getZonedParts } from './date'
+
+/**
+ * A patch change compared with when it was scheduled
+ */
+export interface AdherenceChange {
+  applicationId: string // The patch that went on
+  previousApplicationId: string // The patch it replaced
+  medicationId: string // Medication of the replaced patch, whose schedule the change is measured against
+  scheduledAt: Date // When the replaced patch was due to be changed
+  changedAt: Date // When the new patch went on
+  latenessMs: number // Negative when changed early
+  onTime: boolean
+}
+
+/**
+ * A stretch with no patch on
+ */
+export interface WearGap {
+  startMs: number
+  endMs: number
+}
+
+export interface AdherenceSummary {
+  total: number
+  onTimeCount: number
+  onTimeRate: number | null // 0-1, null without any changes
+  averageLatenessMs: number | null // Of late changes only
+  worstLatenessMs: number | null
+  currentStreak: number // On-time changes in a row up to the latest
+  bestStreak: number
+}
+
+export interface AdherenceBucket {
+  key: string
+  label: string
+  total: number
+  onTimeCount: number
+  onTimeRate: number | null
+}
+
+// The minimum application fields the analysis reads
+interface AdherenceApplication {
+  id: string
+  medicationId: string
+  takenAt: string
+  removedAt?: string
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// A change this close after the scheduled time still counts as on time
+export const ON_TIME_GRACE_MS = HOUR_MS
+
+// A new patch put on this long before the old one came off still counts as its replacement
+const REPLACEMENT_TOLERANCE_MS = 5 * 60 * 1000
+
+// Gaps shorter than this are just the time it takes to swap patches
+const MIN_GAP_MS = 15 * 60 * 1000
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Lateness ranges for the distribution, in hours; the last one is open-ended
+export const LATENESS_BUCKETS = [
+  { label: 'Not late', maxHours: 0 },
+  { label: 'Up to 1 h', maxHours: 1 },
+  { label: '1-3 h', maxHours: 3 },
+  { label: '3-6 h', maxHours: 6 },
+  { label: '6-12 h', maxHours: 12 },
+  { label: '12-24 h', maxHours: 24 },
+  { label: 'Over 24 h', maxHours: Infinity }
+]
+
+/**
+ * Pair each patch that came off with the patch that replaced it. Patches applied together are
+ * matched one to one, and a patch that was never replaced (or is still on) has no change.
+ * @param applications Recorded applications, in any order
+ * @param getChangeDueMs When an application was due to be changed, following its medication's schedule
+ * @returns Changes, oldest first
+ */
+export function getAdherenceChanges<T extends AdherenceApplication>(
+  applications: T[],
+  getChangeDueMs: (application: T) => number
+): AdherenceChange[] {
+  const byAppliedAt = [...applications].sort((a, b) => new Date(a.takenAt).getTime() - new Date(b.takenAt).getTime())
+  const removed = byAppliedAt
+    .filter(app => app.removedAt)
+    .sort((a, b) => new Date(a.removedAt!).getTime() - new Date(b.removedAt!).getTime())
+  const claimed = new Set<string>()
+  const changes: AdherenceChange[] = []
+
+  for (const previous of removed) {
+    const previousAppliedMs = new Date(previous.takenAt).getTime()
+    const removedMs = new Date(previous.removedAt!).getTime()
+    const replacement = byAppliedAt.find(app => {
+      const appliedMs = new Date(app.takenAt).getTime()
+      return !claimed.has(app.id) && appliedMs > previousAppliedMs && appliedMs >= removedMs - REPLACEMENT_TOLERANCE_MS
+    })
+    if (!replacement) continue
+
+    claimed.add(replacement.id)
+    const scheduledMs = getChangeDueMs(previous)
+    const changedMs = new Date(replacement.takenAt).getTime()
+    const latenessMs = changedMs - scheduledMs
+
+    changes.push({
+      applicationId: replacement.id,
+      previousApplicationId: previous.id,
+      medicationId: previous.medicationId,
+      scheduledAt: new Date(scheduledMs),
+      changedAt: new Date(changedMs),
+      latenessMs,
+      onTime: latenessMs <= ON_TIME_GRACE_MS
+    })
+  }
+
+  return changes.sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime())
+}
+
+/**
+ * Find stretches with no patch on between the first application and the end of a range
+ * @param applications Recorded applications
+ * @param fromMs Start of the range
+ * @param toMs End of the range
+ * @returns Gaps inside the range, oldest first
+ */
+export function getWearGaps(applications: AdherenceApplication[], fromMs: number, toMs: number): WearGap[] {
+  const worn = applications
+    .map(app => ({
+      startMs: new Date(app.takenAt).getTime(),
+      endMs: app.removedAt ? new Date(app.removedAt).getTime() : Infinity
+    }))
+    .sort((a, b) => a.startMs - b.startMs)
+  const gaps: WearGap[] = []
+  let coveredUntil = -Infinity
+
+  for (const interval of worn) {
+    if (coveredUntil !== -Infinity && interval.startMs - coveredUntil >= MIN_GAP_MS) {
+      gaps.push({ startMs: coveredUntil, endMs: interval.startMs })
+    }
+    coveredUntil = Math.max(coveredUntil, interval.endMs)
+  }
+
+  // Nothing on right now
+  if (coveredUntil !== -Infinity && coveredUntil !== Infinity && toMs - coveredUntil >= MIN_GAP_MS) {
+    gaps.push({ startMs: coveredUntil, endMs: toMs })
+  }
+
+  return gaps
+    .filter(gap => gap.endMs > fromMs && gap.startMs < toMs)
+    .map(gap => ({ startMs: Math.max(gap.startMs, fromMs), endMs: Math.min(gap.endMs, toMs) }))
+}
+
+/**
+ * On-time rate, lateness and streaks over a set of changes
+ * @param changes Changes, oldest first
+ */
+export function summarizeAdherence(changes: AdherenceChange[]): AdherenceSummary {
+  const late = changes.filter(change => change.latenessMs > 0)
+  const onTimeCount = changes.filter(change => change.onTime).length
+  let run = 0
+  let bestStreak = 0
+
+  for (const change of changes) {
+    run = change.onTime ? run + 1 : 0
+    bestStreak = Math.max(bestStreak, run)
+  }
+
+  return {
+    total: changes.length,
+    onTimeCount,
+    onTimeRate: changes.length ? onTimeCount / changes.length : null,
+    averageLatenessMs: late.length ? late.reduce((sum, change) => sum + change.latenessMs, 0) / late.length : null,
+    worstLatenessMs: late.length ? Math.max(...late.map(change => change.latenessMs)) : null,
+    currentStreak: run,
+    bestStreak
+  }
+}
+
+// Collect changes into labelled buckets, keeping the order keys were first seen in
+function bucketChanges(changes: AdherenceChange[], getBucket: (change: AdherenceChange) => { key: string, label: string }) {
+  const buckets = new Map<string, AdherenceBucket>()
+
+  for (const change of changes) {
+    const { key, label } = getBucket(change)
+    const bucket = buckets.get(key) ?? { key, label, total: 0, onTimeCount: 0, onTimeRate: null }
+    bucket.total++
+    if (change.onTime) bucket.onTimeCount++
+    bucket.onTimeRate = bucket.onTimeCount / bucket.total
+    buckets.set(key, bucket)
+  }
+
+  return [...buckets.values()]
+}
+
+/**
+ * On-time rate per calendar week (starting Monday) or month, by when each change was due
+ * @param changes Changes, oldest first
+ * @param period Week or month
+ * @param timeZone Time zone the weeks and months are in (defaults to the device's)
+ */
+export function groupByPeriod(changes: AdherenceChange[], period: 'week' | 'month', timeZone = getDeviceTimeZone()): AdherenceBucket[] {
+  return bucketChanges(changes, change => {
+    const { year, month, day, weekday } = getZonedParts(change.scheduledAt.getTime(), timeZone)
+
+    if (period === 'month') {
+      return {
+        key: `${year}-${String(month).padStart(2, '0')}`,
+        label: change.scheduledAt.toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone })
+      }
+    }
+
+    // A calendar date, so its UTC fields are the Monday's date
+    const monday = new Date(Date.UTC(year, month - 1, day - ((weekday + 6) % 7)))
+    return {
+      key: `${monday.getUTCFullYear()}-${String(monday.getUTCMonth() + 1).padStart(2, '0')}-${String(monday.getUTCDate()).padStart(2, '0')}`,
+      label: `${monday.getUTCMonth() + 1}/${monday.getUTCDate()}`
+    }
+  })
+}
+
+/**
+ * On-time rate by the day of the week each change was due, Sunday first
+ * @param changes Changes in any order
+ * @param timeZone Time zone the days are in (defaults to the device's)
+ */
+export function groupByWeekday(changes: AdherenceChange[], timeZone = getDeviceTimeZone()): AdherenceBucket[] {
+  const buckets = bucketChanges(changes, change => {
+    const day = getZonedParts(change.scheduledAt.getTime(), timeZone).weekday
+    return { key: String(day), label: WEEKDAY_LABELS[day] }
+  })
+
+  return WEEKDAY_LABELS.map((label, day) => {
+    return buckets.find(bucket => bucket.key === String(day)) ?? { key: String(day), label, total: 0, onTimeCount: 0, onTimeRate: null }
+  })
+}
+
+/**
+ * Number of changes in each lateness range
+ * @param changes Changes in any order
+ */
+export function getLatenessDistribution(changes: AdherenceChange[]) {
+  return LATENESS_BUCKETS.map((bucket, index) => {
+    const minHours = index === 0 ? -Infinity : LATENESS_BUCKETS[index - 1].maxHours
+    const count = changes.filter(change => {
+      const hours = change.latenessMs / HOUR_MS
+      return hours > minHours && hours <= bucket.maxHours
+    }).length
+    return { label: bucket.label, count }
+  })
+}
+
+/**
+ * Describe a duration in hours or days, e.g. "5 h" or "2.5 days"
+ */
+export function formatDuration(ms: number): string {
+  const hours = Math.abs(ms) / HOUR_MS
+  if (hours < 1) return `${Math.round(Math.abs(ms) / 60000)} min`
+  if (hours < 48) return `${Math.round(hours * 10) / 10} h`
+  return `${Math.round(Math.abs(ms) / DAY_MS * 10) / 10} days`
+}
@@ -0,0 +1,64 @@
+// Backend the app talks to, if one is configured (e.g. http://localhost:8787)
+export const API_BASE_URL: string | undefined = import.meta.env.VITE_API_BASE_URL?.replace(/\/$/, '') || undefined
+
+// An error response from the backend
+export class ApiError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+  }
+}
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  body?: unknown
+  token?: string // Access token sent as a bearer token
+}
+
+/**
+ * Call a JSON endpoint on the backend
+ * @param path Path below the API base URL, e.g. /auth/login
+ * @param options Method, JSON body and access token
+ * @returns The parsed response body
+ */
+export async function apiRequest<T>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+  if (!API_BASE_URL) {
+    throw new Error('No backend is configured')
+  }
+
+  const headers: Record<string, string> = {}
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json'
+  }
+  if (options.token) {
+    headers['Authorization'] = `Bearer ${options.token}`
+  }
+
+  let response: Response
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, {
+      method: options.method || 'GET',
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body)
+    })
+  } catch {
+    throw new ApiError('Could not reach the server. Check your connection and try again.', 0)
+  }
+
+  const text = await response.text()
+  let data
+  try {
+    data = text ? JSON.parse(text) : undefined
+  } catch {
+    data = undefined
+  }
+
+  if (!response.ok) {
+    throw new ApiError(data?.error || `Request failed with status ${response.status}`, response.status)
+  }
+
+  return data as T
+}
@@ -0,0 +1,274 @@
+import { API_BASE_URL, ApiError, apiRequest } from './api'
+import { secureStorage } from './secureStorage'
+
+export interface User {
+  id: string
+  username: string
+  email: string
+}
+
+// A signed-in session. The access token is short-lived; the refresh token gets a new one.
+export interface AuthSession {
+  user: User
+  accessToken: string
+  accessTokenExpiresAt: number // Epoch ms
+  refreshToken: string
+  refreshTokenExpiresAt: number // Epoch ms
+}
+
+// Where accounts live: the configured backend, or this browser when there is none
+export interface AuthBackend {
+  register(username: string, email: string, password: string): Promise<AuthSession>
+  login(email: string, password: string): Promise<AuthSession>
+  refresh(session: AuthSession): Promise<AuthSession>
+  validate(session: AuthSession): Promise<User>
+  logout(session: AuthSession): Promise<void>
+  changePassword(session: AuthSession, currentPassword: string, newPassword: string): Promise<AuthSession>
+}
+
+// Raised when a session is no longer accepted and the user must sign in again
+export class SessionExpiredError extends Error {
+  constructor(message = 'Your session has expired. Please log in again.') {
+    super(message)
+    this.name = 'SessionExpiredError'
+  }
+}
+
+// Accounts stored by the backend; sessions it hands out
+function createHttpAuthBackend(): AuthBackend {
+  // Turn a rejected token into a session error, passing other failures through
+  async function withSession<T>(request: Promise<T>): Promise<T> {
+    try {
+      return await request
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        throw new SessionExpiredError()
+      }
+      throw error
+    }
+  }
+
+  return {
+    register(username, email, password) {
+      return apiRequest<AuthSession>('/auth/register', { method: 'POST', body: { username, email, password } })
+    },
+    login(email, password) {
+      return apiRequest<AuthSession>('/auth/login', { method: 'POST', body: { email, password } })
+    },
+    refresh(session) {
+      return withSession(apiRequest<AuthSession>('/auth/refresh', {
+        method: 'POST',
+        body: { refreshToken: session.refreshToken }
+      }))
+    },
+    async validate(session) {
+      const { user } = await withSession(apiRequest<{ user: User }>('/auth/me', { token: session.accessToken }))
+      return user
+    },
+    async logout(session) {
+      await apiRequest('/auth/logout', { method: 'POST', body: { refreshToken: session.refreshToken } })
+    },
+    changePassword(session, currentPassword, newPassword) {
+      return withSession(apiRequest<AuthSession>('/auth/password', {
+        method: 'POST',
+        token: session.accessToken,
+        body: { currentPassword, newPassword }
+      }))
+    }
+  }
+}
+
+// A local account, with a PBKDF2 hash of its password
+interface LocalAccount extends User {
+  salt: string // Base64
+  passwordHash: string // Base64
+  createdAt: string // ISO date string
+}
+
+// A local session, stored by the SHA-256 of its tokens
+interface LocalSession {
+  userId: string
+  accessTokenHash: string
+  accessTokenExpiresAt: number
+  refreshTokenHash: string
+  refreshTokenExpiresAt: number
+}
+
+const LOCAL_ACCOUNTS_KEY = 'auth-local-accounts'
+const LOCAL_SESSIONS_KEY = 'auth-local-sessions'
+const PBKDF2_ITERATIONS = 210000
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000
+
+function toBase64(bytes: ArrayBuffer | Uint8Array) {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+}
+
+function fromBase64(text: string) {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0))
+}
+
+function randomToken() {
+  return toBase64(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+async function sha256(text: string) {
+  return toBase64(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)))
+}
+
+async function hashPassword(password: string, salt: Uint8Array) {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS }, key, 256)
+  return toBase64(bits)
+}
+
+function readList<T>(key: string): T[] {
+  try {
+    return JSON.parse(secureStorage.getItem(key) || '[]')
+  } catch {
+    return []
+  }
+}
+
+function writeList<T>(key: string, items: T[]) {
+  secureStorage.setItem(key, JSON.stringify(items))
+}
+
+// Accounts kept in this browser, for when no backend is configured
+function createLocalAuthBackend(): AuthBackend {
+  function toUser(account: LocalAccount): User {
+    return { id: account.id, username: account.username, email: account.email }
+  }
+
+  async function startSession(account: LocalAccount): Promise<AuthSession> {
+    const now = Date.now()
+    const session: AuthSession = {
+      user: toUser(account),
+      accessToken: randomToken(),
+      accessTokenExpiresAt: now + ACCESS_TOKEN_TTL_MS,
+      refreshToken: randomToken(),
+      refreshTokenExpiresAt: now + REFRESH_TOKEN_TTL_MS
+    }
+
+    const sessions = readList<LocalSession>(LOCAL_SESSIONS_KEY).filter(item => item.refreshTokenExpiresAt > now)
+    sessions.push({
+      userId: account.id,
+      accessTokenHash: await sha256(session.accessToken),
+      accessTokenExpiresAt: session.accessTokenExpiresAt,
+      refreshTokenHash: await sha256(session.refreshToken),
+      refreshTokenExpiresAt: session.refreshTokenExpiresAt
+    })
+    writeList(LOCAL_SESSIONS_KEY, sessions)
+
+    return session
+  }
+
+  async function endSession(refreshToken: string) {
+    const refreshTokenHash = await sha256(refreshToken)
+    writeList(LOCAL_SESSIONS_KEY, readList<LocalSession>(LOCAL_SESSIONS_KEY).filter(item => item.refreshTokenHash !== refreshTokenHash))
+  }
+
+  function findAccount(userId: string) {
+    const account = readList<LocalAccount>(LOCAL_ACCOUNTS_KEY).find(item => item.id === userId)
+    if (!account) {
+      throw new SessionExpiredError()
+    }
+    return account
+  }
+
+  async function findSession(session: AuthSession, by: 'access' | 'refresh') {
+    const now = Date.now()
+    const tokenHash = await sha256(by === 'access' ? session.accessToken : session.refreshToken)
+    const stored = readList<LocalSession>(LOCAL_SESSIONS_KEY).find(item => {
+      return by === 'access'
+        ? item.accessTokenHash === tokenHash && item.accessTokenExpiresAt > now
+        : item.refreshTokenHash === tokenHash && item.refreshTokenExpiresAt > now
+    })
+
+    if (!stored) {
+      throw new SessionExpiredError()
+    }
+    return stored
+  }
+
+  return {
+    async register(username, email, password) {
+      const accounts = readList<LocalAccount>(LOCAL_ACCOUNTS_KEY)
+      const normalizedEmail = email.trim().toLowerCase()
+
+      if (accounts.some(account => account.email === normalizedEmail)) {
+        throw new Error('An account with this email already exists')
+      }
+
+      const salt = crypto.getRandomValues(new Uint8Array(16))
+      const account: LocalAccount = {
+        id: `local-${crypto.randomUUID()}`,
+        username: username.trim(),
+        email: normalizedEmail,
+        salt: toBase64(salt),
+        passwordHash: await hashPassword(password, salt),
+        createdAt: new Date().toISOString()
+      }
+
+      writeList(LOCAL_ACCOUNTS_KEY, [...accounts, account])
+
+      return startSession(account)
+    },
+    async login(email, password) {
+      const normalizedEmail = email.trim().toLowerCase()
+      const account = readList<LocalAccount>(LOCAL_ACCOUNTS_KEY).find(item => item.email === normalizedEmail)
+
+      // Hash anyway so a missing account takes as long as a wrong password
+      const passwordHash = await hashPassword(password, account ? fromBase64(account.salt) : new Uint8Array(16))
+
+      if (!account || account.passwordHash !== passwordHash) {
+        throw new Error('Invalid email or password')
+      }
+
+      return startSession(account)
+    },
+    async refresh(session) {
+      const stored = await findSession(session, 'refresh')
+      await endSession(session.refreshToken)
+      return startSession(findAccount(stored.userId))
+    },
+    async validate(session) {
+      const stored = await findSession(session, 'access')
+      return toUser(findAccount(stored.userId))
+    },
+    async logout(session) {
+      await endSession(session.refreshToken)
+    },
+    async changePassword(session, currentPassword, newPassword) {
+      const stored = await findSession(session, 'access')
+      const accounts = readList<LocalAccount>(LOCAL_ACCOUNTS_KEY)
+      const account = accounts.find(item => item.id === stored.userId)
+
+      if (!account) {
+        throw new SessionExpiredError()
+      }
+
+      if (await hashPassword(currentPassword, fromBase64(account.salt)) !== account.passwordHash) {
+        throw new Error('Current password is incorrect')
+      }
+
+      const salt = crypto.getRandomValues(new Uint8Array(16))
+      account.salt = toBase64(salt)
+      account.passwordHash = await hashPassword(newPassword, salt)
+      writeList(LOCAL_ACCOUNTS_KEY, accounts)
+
+      // Sign out everywhere else
+      writeList(LOCAL_SESSIONS_KEY, readList<LocalSession>(LOCAL_SESSIONS_KEY).filter(item => item.userId !== account.id))
+
+      return startSession(account)
+    }
+  }
+}
+
+/**
+ * The auth backend in use: the configured server, or accounts in this browser
+ * @returns The auth backend
+ */
+export function getAuthBackend(): AuthBackend {
+  return API_BASE_URL ? createHttpAuthBackend() : createLocalAuthBackend()
+}
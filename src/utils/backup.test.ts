@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { BACKUP_APP_ID, BACKUP_VERSION, previewRestore, restoreBackup, type BackupData } from './backup'
+
+const stored = new Map<string, string>()
+
+vi.mock('./secureStorage', () => ({
+  secureStorage: {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key)
+  },
+  flushSecureStorage: async () => {}
+}))
+
+vi.mock('./userStorage', () => ({
+  userStorageKey: (key: string) => key
+}))
+
+function store(data: BackupData) {
+  for (const [key, value] of Object.entries(data)) {
+    stored.set(key, JSON.stringify(value))
+  }
+}
+
+function read(key: string) {
+  return JSON.parse(stored.get(key) ?? 'null')
+}
+
+function backupOf(data: BackupData) {
+  return { app: BACKUP_APP_ID, version: BACKUP_VERSION, exportedAt: '2026-10-01T00:00:00.000Z', data }
+}
+
+const lot = { id: 'lot-1', medicationId: 'estradiol-week', receivedAt: '2026-09-01T00:00:00.000Z' }
+const opening = { id: 'txn-opening-lot-1', at: '2026-09-01T00:00:00.000Z', medicationId: 'estradiol-week', lotId: 'lot-1', delta: 8, reason: 'manual-correction' }
+const appliedHere = { id: 'txn-here', at: '2026-10-05T00:00:00.000Z', medicationId: 'estradiol-week', lotId: 'lot-1', delta: -1, reason: 'applied' }
+const appliedInBackup = { id: 'txn-backup', at: '2026-09-20T00:00:00.000Z', medicationId: 'estradiol-week', lotId: 'lot-1', delta: -1, reason: 'applied' }
+
+describe('restoreBackup', () => {
+  beforeEach(() => {
+    stored.clear()
+    store({ 'medication-lots': [{ ...lot, quantity: 7 }], 'medication-ledger': [opening, appliedHere] })
+  })
+
+  it('counts lots from the merged ledger when merging', async () => {
+    const backup = backupOf({ 'medication-lots': [{ ...lot, quantity: 7 }], 'medication-ledger': [opening, appliedInBackup] })
+
+    await restoreBackup(backup, 'merge')
+
+    expect(read('medication-ledger')).toHaveLength(3)
+    expect(read('medication-lots')).toEqual([{ ...lot, quantity: 6 }])
+  })
+
+  it('recounts lots when the backup only has ledger entries', async () => {
+    const backup = backupOf({ 'medication-ledger': [appliedInBackup] })
+
+    expect(previewRestore(backup, 'merge').find(item => item.key === 'medication-lots')).toMatchObject({ updated: 1, incomingCount: 0 })
+
+    await restoreBackup(backup, 'merge')
+
+    expect(read('medication-lots')).toEqual([{ ...lot, quantity: 6 }])
+  })
+
+  it('takes the backup as it is when overwriting', async () => {
+    const backup = backupOf({ 'medication-lots': [{ ...lot, quantity: 5 }], 'medication-ledger': [opening, appliedInBackup] })
+
+    await restoreBackup(backup, 'overwrite')
+
+    expect(read('medication-lots')).toEqual([{ ...lot, quantity: 5 }])
+    expect(read('medication-ledger')).toEqual([opening, appliedInBackup])
+  })
+})
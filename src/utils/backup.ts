@@ -0,0 +1,415 @@
+import { userStorageKey } from './userStorage'
+import { flushSecureStorage, secureStorage } from './secureStorage'
+import { getLotQuantities, upgradeLegacyData } from './medications'
+
+// Identifies files written by this app
+export const BACKUP_APP_ID = 'lunas-estropad-tracker'
+
+// Current backup format version. Bump it and add a migration whenever a stored shape changes.
+export const BACKUP_VERSION = 3
+
+export type BackupData = Record<string, unknown>
+
+export interface BackupFile {
+  app: string
+  version: number
+  exportedAt: string // ISO date string
+  data: BackupData
+}
+
+export type RestoreMode = 'merge' | 'overwrite'
+
+const LOTS_KEY = 'medication-lots'
+const LEDGER_KEY = 'medication-ledger'
+
+interface BackupSection {
+  key: string // Storage key
+  label: string
+  kind: 'records' | 'value' // Records are arrays of objects with an id and merge by id
+  validate: (value: unknown) => string | null
+  mergeValue?: (current: unknown, incoming: unknown) => unknown
+}
+
+// What restoring a backup would do to one section
+export interface RestorePreviewItem {
+  key: string
+  label: string
+  currentCount: number
+  incomingCount: number
+  added: number
+  updated: number
+  removed: number
+  changed: boolean
+}
+
+type FieldType = 'string' | 'number'
+
+// Check an array of records has the fields the app relies on
+function recordsWith(fields: Record<string, FieldType>) {
+  return (value: unknown): string | null => {
+    if (!Array.isArray(value)) return 'is not a list'
+
+    for (const [index, record] of value.entries()) {
+      if (!record || typeof record !== 'object') {
+        return `entry ${index + 1} is not an object`
+      }
+
+      for (const [field, type] of Object.entries(fields)) {
+        const fieldValue = (record as Record<string, unknown>)[field]
+        if (typeof fieldValue !== type || (type === 'number' && !Number.isFinite(fieldValue))) {
+          return `entry ${index + 1} has an invalid "${field}"`
+        }
+      }
+    }
+
+    return null
+  }
+}
+
+// Check a single number setting
+function isNumber(value: unknown) {
+  return typeof value === 'number' && Number.isFinite(value) ? null : 'is not a number'
+}
+
+// Check a list of IDs
+function isStringList(value: unknown) {
+  return Array.isArray(value) && value.every(item => typeof item === 'string') ? null : 'is not a list of IDs'
+}
+
+// Check a single object setting
+function isObject(value: unknown) {
+  return value && typeof value === 'object' && !Array.isArray(value) ? null : 'is not an object'
+}
+
+// Every persisted key, in restore order
+const SECTIONS: BackupSection[] = [
+  {
+    key: 'medications',
+    label: 'Medications',
+    kind: 'records',
+    validate: recordsWith({ id: 'string', name: 'string', deliveryKind: 'string' })
+  },
+  {
+    key: LOTS_KEY,
+    label: 'Inventory lots',
+    kind: 'records',
+    validate: recordsWith({ id: 'string', medicationId: 'string', quantity: 'number', receivedAt: 'string' })
+  },
+  {
+    key: LEDGER_KEY,
+    label: 'Inventory ledger',
+    kind: 'records',
+    validate: recordsWith({ id: 'string', at: 'string', medicationId: 'string', delta: 'number', reason: 'string' })
+  },
+  {
+    key: 'medication-doses',
+    label: 'Doses and patch applications',
+    kind: 'records',
+    validate: recordsWith({ id: 'string', medicationId: 'string', takenAt: 'string' })
+  },
+  {
+    key: 'medication-doses-version',
+    label: 'Dose record version',
+    kind: 'value',
+    validate: isNumber,
+    // Keep the older version so merged-in records still get migrated
+    mergeValue: (current, incoming) => Math.min(Number(current), Number(incoming))
+  },
+  {
+    key: 'patch-custom-sites',
+    label: 'Custom application sites',
+    kind: 'records',
+    validate: recordsWith({ id: 'string', label: 'string' })
+  },
+  {
+    key: 'patch-site-rest-days',
+    label: 'Site rest days',
+    kind: 'value',
+    validate: isNumber
+  },
+  {
+    key: 'patch-settled-late-changes',
+    label: 'Settled late changes',
+    kind: 'value',
+    validate: isStringList,
+    mergeValue: (current, incoming) => [...new Set([...(current as string[]), ...(incoming as string[])])]
+  },
+  {
+    key: 'prescriptions',
+    label: 'Prescriptions',
+    kind: 'records',
+    validate: recordsWith({ id: 'string', medicationId: 'string', quantityPerFill: 'number', refillsRemaining: 'number' })
+  },
+  {
+    key: 'skin-observations',
+    label: 'Skin observations',
+    kind: 'records',
+    validate: recordsWith({ id: 'string', doseId: 'string', observedAt: 'string', severity: 'number' })
+  },
+  {
+    key: 'skin-observation-photos',
+    label: 'Observation photos',
+    kind: 'value',
+    validate: isObject,
+    // Keep photos taken here and add the ones in the backup
+    mergeValue: (current, incoming) => ({ ...(current as object), ...(incoming as object) })
+  },
+  {
+    key: 'lab-results',
+    label: 'Lab results',
+    kind: 'records',
+    validate: recordsWith({ id: 'string', analyte: 'string', value: 'number', unit: 'string', drawnAt: 'string' })
+  },
+  {
+    key: 'reminder-history',
+    label: 'Reminder history',
+    kind: 'records',
+    validate: recordsWith({ id: 'string', reminderId: 'string', at: 'string', to: 'string' })
+  },
+  {
+    key: 'notification-preferences',
+    label: 'Notification preferences',
+    kind: 'value',
+    validate: isObject
+  },
+  {
+    key: 'travel-settings',
+    label: 'Travel settings',
+    kind: 'value',
+    validate: isObject
+  }
+]
+
+// Upgrades from one backup version to the next, keyed by the version they upgrade from
+const MIGRATIONS: Record<number, (data: BackupData, exportedAt: string) => BackupData> = {
+  // Version 1 stored plain stock counts under "patch-inventory"
+  1: (data, exportedAt) => {
+    const { 'patch-inventory': counts, ...rest } = data
+    if (!Array.isArray(counts)) return rest
+
+    const lots = counts
+      .filter(item => item && typeof item.patchTypeId === 'string' && Number(item.count) > 0)
+      .map(item => ({
+        id: `lot-legacy-${item.patchTypeId}`,
+        patchTypeId: item.patchTypeId,
+        quantity: Number(item.count),
+        receivedAt: exportedAt
+      }))
+
+    return {
+      ...rest,
+      'patch-inventory-lots': lots,
+      'patch-inventory-ledger': lots.map((lot, index) => ({
+        id: `txn-${Date.parse(exportedAt)}-${index}`,
+        at: exportedAt,
+        patchTypeId: lot.patchTypeId,
+        lotId: lot.id,
+        delta: lot.quantity,
+        reason: 'manual-correction',
+        note: 'Opening balance'
+      })),
+      // Application records from version 1 predate removal tracking
+      'patch-applications-version': 0
+    }
+  },
+  // Version 2 only knew patches, stored under "patch-*" keys with patchTypeId fields
+  2: data => upgradeLegacyData(data)
+}
+
+// Read a key of the signed-in account, or undefined when it is missing or unreadable
+function readKey(key: string): unknown {
+  const stored = secureStorage.getItem(userStorageKey(key))
+  if (stored === null) return undefined
+
+  try {
+    return JSON.parse(stored)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Collect every stored key into a backup
+ * @returns Backup of all app data at the current version
+ */
+export function createBackup(): BackupFile {
+  const data: BackupData = {}
+
+  for (const section of SECTIONS) {
+    const value = readKey(section.key)
+    if (value !== undefined) {
+      data[section.key] = value
+    }
+  }
+
+  return {
+    app: BACKUP_APP_ID,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    data
+  }
+}
+
+/**
+ * Parse a backup file, upgrade it to the current version and validate every section
+ * @param text Contents of the backup file
+ * @returns The backup at the current version
+ */
+export function parseBackup(text: string): BackupFile {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  const file = parsed as Partial<BackupFile> | null
+  if (!file || typeof file !== 'object' || file.app !== BACKUP_APP_ID) {
+    throw new Error('The file is not a backup from this app')
+  }
+
+  if (!Number.isInteger(file.version) || file.version! < 1) {
+    throw new Error('The backup has no valid version')
+  }
+
+  if (file.version! > BACKUP_VERSION) {
+    throw new Error('The backup is from a newer version of the app. Please update before importing it.')
+  }
+
+  if (!file.data || typeof file.data !== 'object') {
+    throw new Error('The backup contains no data')
+  }
+
+  const exportedAt = typeof file.exportedAt === 'string' && !isNaN(Date.parse(file.exportedAt))
+    ? file.exportedAt
+    : new Date().toISOString()
+
+  let data = file.data
+  for (let version = file.version!; version < BACKUP_VERSION; version++) {
+    const migrate = MIGRATIONS[version]
+    if (migrate) {
+      data = migrate(data, exportedAt)
+    }
+  }
+
+  for (const section of SECTIONS) {
+    if (data[section.key] === undefined) continue
+
+    const problem = section.validate(data[section.key])
+    if (problem) {
+      throw new Error(`${section.label} in the backup: ${problem}`)
+    }
+  }
+
+  return { app: BACKUP_APP_ID, version: BACKUP_VERSION, exportedAt, data }
+}
+
+// Merge two record lists by id; incoming records replace current ones with the same id
+function mergeRecords(current: { id: string }[], incoming: { id: string }[]) {
+  const merged = new Map(current.map(record => [record.id, record]))
+  for (const record of incoming) {
+    merged.set(record.id, record)
+  }
+  return [...merged.values()]
+}
+
+// The value a section would hold after restoring
+function getRestoredValue(section: BackupSection, current: unknown, incoming: unknown, mode: RestoreMode) {
+  if (incoming === undefined) return current
+  if (mode === 'overwrite' || current === undefined) return incoming
+
+  if (section.kind === 'records' && Array.isArray(current)) {
+    return mergeRecords(current, incoming as { id: string }[])
+  }
+
+  return section.mergeValue ? section.mergeValue(current, incoming) : current
+}
+
+// The value of every section a restore writes, by key. Merging keeps the ledger entries of
+// both sides but each lot's count from the backup, so lots are counted from the merged ledger.
+function getRestoredData(backup: BackupFile, mode: RestoreMode) {
+  const restored = new Map<string, unknown>()
+
+  for (const section of SECTIONS) {
+    const incoming = backup.data[section.key]
+    if (incoming !== undefined) {
+      restored.set(section.key, getRestoredValue(section, readKey(section.key), incoming, mode))
+    }
+  }
+
+  const lots = restored.get(LOTS_KEY) ?? readKey(LOTS_KEY)
+  const ledger = restored.get(LEDGER_KEY) ?? readKey(LEDGER_KEY)
+  if (mode === 'merge' && (restored.has(LOTS_KEY) || restored.has(LEDGER_KEY)) && Array.isArray(lots) && Array.isArray(ledger)) {
+    // As the medications store does after a sync
+    const quantities = getLotQuantities(ledger)
+    restored.set(LOTS_KEY, lots.map(lot => quantities.has(lot.id) ? { ...lot, quantity: quantities.get(lot.id) } : lot))
+  }
+
+  return restored
+}
+
+/**
+ * Describe what restoring a backup would change, without changing anything
+ * @param backup A parsed backup
+ * @param mode Whether to merge with or overwrite the current data
+ * @returns One summary per section in the backup
+ */
+export function previewRestore(backup: BackupFile, mode: RestoreMode): RestorePreviewItem[] {
+  const restoredData = getRestoredData(backup, mode)
+
+  return SECTIONS
+    .filter(section => restoredData.has(section.key))
+    .map(section => {
+      const current = readKey(section.key)
+      const incoming = backup.data[section.key]
+      const restored = restoredData.get(section.key)
+      const changed = JSON.stringify(restored) !== JSON.stringify(current)
+
+      if (section.kind === 'value') {
+        return {
+          key: section.key,
+          label: section.label,
+          currentCount: current === undefined ? 0 : 1,
+          incomingCount: 1,
+          added: current === undefined ? 1 : 0,
+          updated: current !== undefined && changed ? 1 : 0,
+          removed: 0,
+          changed
+        }
+      }
+
+      const currentRecords = new Map(
+        (Array.isArray(current) ? current as { id: string }[] : []).map(record => [record.id, JSON.stringify(record)])
+      )
+      const restoredRecords = restored as { id: string }[]
+      const restoredIds = new Set(restoredRecords.map(record => record.id))
+
+      return {
+        key: section.key,
+        label: section.label,
+        currentCount: currentRecords.size,
+        // Lots are recounted even when the backup only has ledger entries
+        incomingCount: Array.isArray(incoming) ? incoming.length : 0,
+        added: restoredRecords.filter(record => !currentRecords.has(record.id)).length,
+        updated: restoredRecords.filter(record => {
+          const before = currentRecords.get(record.id)
+          return before !== undefined && before !== JSON.stringify(record)
+        }).length,
+        removed: [...currentRecords.keys()].filter(id => !restoredIds.has(id)).length,
+        changed
+      }
+    })
+}
+
+/**
+ * Write a backup into storage. The page must be reloaded afterwards so the stores pick it up.
+ * @param backup A parsed backup
+ * @param mode Whether to merge with or overwrite the current data
+ * @returns Once everything is written, including encrypted copies
+ */
+export async function restoreBackup(backup: BackupFile, mode: RestoreMode) {
+  for (const [key, restored] of getRestoredData(backup, mode)) {
+    secureStorage.setItem(userStorageKey(key), JSON.stringify(restored))
+  }
+  await flushSecureStorage()
+}
@@ -0,0 +1,28 @@
+export type CsvValue = string | number | boolean | null | undefined
+
+/**
+ * Quote a value for CSV when it contains separators, quotes or line breaks
+ * @param value The cell value
+ * @returns The escaped cell
+ */
+function escapeCell(value: CsvValue): string {
+  if (value === null || value === undefined) return ''
+
+  const text = String(value)
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+/**
+ * Build CSV text with a header row, using CRLF line endings as spreadsheets expect
+ * @param headers Column names
+ * @param rows Cell values, one array per row in header order
+ * @returns The CSV document
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCell).join(','))
+    .join('\r\n')
+}
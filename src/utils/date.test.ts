@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { getCalendarDaysBetween, getTimeZoneOffsetMs, getZonedParts, zonedTimeToEpoch } from './date'
+
+const NEW_YORK = 'America/New_York'
+const BERLIN = 'Europe/Berlin'
+
+const HOUR_MS = 60 * 60 * 1000
+
+describe('zonedTimeToEpoch', () => {
+  it('converts ordinary wall-clock times', () => {
+    expect(zonedTimeToEpoch(2026, 1, 15, 8, 0, NEW_YORK)).toBe(Date.UTC(2026, 0, 15, 13, 0))
+    expect(zonedTimeToEpoch(2026, 7, 15, 8, 0, NEW_YORK)).toBe(Date.UTC(2026, 6, 15, 12, 0))
+    expect(zonedTimeToEpoch(2026, 1, 15, 8, 0, BERLIN)).toBe(Date.UTC(2026, 0, 15, 7, 0))
+    expect(zonedTimeToEpoch(2026, 7, 15, 8, 0, BERLIN)).toBe(Date.UTC(2026, 6, 15, 6, 0))
+  })
+
+  it('moves a time skipped when US clocks go forward past the gap', () => {
+    // 2026-03-08 02:00 EST jumps to 03:00 EDT
+    expect(zonedTimeToEpoch(2026, 3, 8, 2, 30, NEW_YORK)).toBe(Date.UTC(2026, 2, 8, 7, 30))
+    expect(zonedTimeToEpoch(2026, 3, 8, 1, 59, NEW_YORK)).toBe(Date.UTC(2026, 2, 8, 6, 59))
+    expect(zonedTimeToEpoch(2026, 3, 8, 3, 0, NEW_YORK)).toBe(Date.UTC(2026, 2, 8, 7, 0))
+  })
+
+  it('moves a time skipped when EU clocks go forward past the gap', () => {
+    // 2026-03-29 02:00 CET jumps to 03:00 CEST
+    expect(zonedTimeToEpoch(2026, 3, 29, 2, 30, BERLIN)).toBe(Date.UTC(2026, 2, 29, 1, 30))
+    expect(zonedTimeToEpoch(2026, 3, 29, 3, 0, BERLIN)).toBe(Date.UTC(2026, 2, 29, 1, 0))
+  })
+
+  it('takes the first of a time repeated when US clocks go back', () => {
+    // 2026-11-01 02:00 EDT falls back to 01:00 EST, so 01:30 happens twice
+    expect(zonedTimeToEpoch(2026, 11, 1, 1, 30, NEW_YORK)).toBe(Date.UTC(2026, 10, 1, 5, 30))
+    expect(zonedTimeToEpoch(2026, 11, 1, 2, 0, NEW_YORK)).toBe(Date.UTC(2026, 10, 1, 7, 0))
+  })
+
+  it('takes the first of a time repeated when EU clocks go back', () => {
+    // 2026-10-25 03:00 CEST falls back to 02:00 CET, so 02:30 happens twice
+    expect(zonedTimeToEpoch(2026, 10, 25, 2, 30, BERLIN)).toBe(Date.UTC(2026, 9, 25, 0, 30))
+    expect(zonedTimeToEpoch(2026, 10, 25, 3, 0, BERLIN)).toBe(Date.UTC(2026, 9, 25, 2, 0))
+  })
+
+  it('rolls over out of range days like Date.UTC', () => {
+    expect(zonedTimeToEpoch(2026, 2, 29, 9, 0, BERLIN)).toBe(zonedTimeToEpoch(2026, 3, 1, 9, 0, BERLIN))
+  })
+})
+
+describe('getZonedParts', () => {
+  it('reads the wall clock on either side of a change', () => {
+    expect(getZonedParts(Date.UTC(2026, 2, 8, 6, 59), NEW_YORK)).toMatchObject({ day: 8, hour: 1, minute: 59, weekday: 0 })
+    expect(getZonedParts(Date.UTC(2026, 2, 8, 7, 0), NEW_YORK)).toMatchObject({ day: 8, hour: 3, minute: 0 })
+  })
+
+  it('gives midnight as hour 0', () => {
+    expect(getZonedParts(Date.UTC(2026, 6, 14, 22, 0), BERLIN)).toMatchObject({ month: 7, day: 15, hour: 0 })
+  })
+})
+
+describe('getTimeZoneOffsetMs', () => {
+  it('follows daylight saving time', () => {
+    expect(getTimeZoneOffsetMs(Date.UTC(2026, 0, 15), NEW_YORK)).toBe(-5 * HOUR_MS)
+    expect(getTimeZoneOffsetMs(Date.UTC(2026, 6, 15), NEW_YORK)).toBe(-4 * HOUR_MS)
+    expect(getTimeZoneOffsetMs(Date.UTC(2026, 0, 15), BERLIN)).toBe(HOUR_MS)
+    expect(getTimeZoneOffsetMs(Date.UTC(2026, 6, 15), BERLIN)).toBe(2 * HOUR_MS)
+  })
+})
+
+describe('getCalendarDaysBetween', () => {
+  it('counts calendar days, not 24 hour periods', () => {
+    expect(getCalendarDaysBetween(Date.UTC(2026, 9, 19, 21, 0), Date.UTC(2026, 9, 19, 23, 0), BERLIN)).toBe(1)
+    expect(getCalendarDaysBetween(Date.UTC(2026, 9, 19, 7, 0), Date.UTC(2026, 9, 19, 18, 0), BERLIN)).toBe(0)
+  })
+
+  it('counts backwards as negative', () => {
+    expect(getCalendarDaysBetween(Date.UTC(2026, 9, 22, 7, 0), Date.UTC(2026, 9, 19, 7, 0), BERLIN)).toBe(-3)
+  })
+
+  it('is not thrown off by the 23 and 25 hour days of a clock change', () => {
+    // Saturday noon to Monday morning around the EU and US changes
+    expect(getCalendarDaysBetween(Date.UTC(2026, 2, 28, 11, 0), Date.UTC(2026, 2, 30, 6, 0), BERLIN)).toBe(2)
+    expect(getCalendarDaysBetween(Date.UTC(2026, 9, 24, 10, 0), Date.UTC(2026, 9, 26, 6, 0), BERLIN)).toBe(2)
+    expect(getCalendarDaysBetween(Date.UTC(2026, 2, 7, 17, 0), Date.UTC(2026, 2, 9, 4, 30), NEW_YORK)).toBe(2)
+    expect(getCalendarDaysBetween(Date.UTC(2026, 9, 31, 16, 0), Date.UTC(2026, 10, 2, 5, 30), NEW_YORK)).toBe(2)
+  })
+})
@@ -15,4 +15,196 @@ export function getDaysHoursFromNow(targetDate: Date): { days: number; hours: nu
   const hours = Math.floor(totalHours % 24)
   
   return { days, hours }
-} 
\ No newline at end of file
+}
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+// A wall-clock time in some time zone
+export interface ZonedParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  weekday: number // 0 = Sunday
+}
+
+// Formatters are slow to create, so keep one per time zone
+const partsFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function getPartsFormatter(timeZone: string) {
+  let formatter = partsFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    })
+    partsFormatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * The IANA time zone the device is set to
+ * @returns E.g. "Europe/Berlin"
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+/**
+ * Whether a time zone name is one the browser knows
+ * @param timeZone IANA time zone name
+ * @returns True when it can be used for formatting
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The wall-clock time in a time zone at an instant
+ * @param ms Epoch ms
+ * @param timeZone IANA time zone name
+ * @returns Date and time fields as a clock there would show them
+ */
+export function getZonedParts(ms: number, timeZone: string): ZonedParts {
+  const fields: Record<string, number> = {}
+  for (const part of getPartsFormatter(timeZone).formatToParts(new Date(ms))) {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value)
+  }
+
+  return {
+    year: fields.year,
+    month: fields.month,
+    day: fields.day,
+    hour: fields.hour,
+    minute: fields.minute,
+    weekday: new Date(Date.UTC(fields.year, fields.month - 1, fields.day)).getUTCDay()
+  }
+}
+
+/**
+ * How far a time zone's clocks are ahead of UTC at an instant
+ * @param ms Epoch ms
+ * @param timeZone IANA time zone name
+ * @returns Offset in ms, negative west of UTC
+ */
+export function getTimeZoneOffsetMs(ms: number, timeZone: string): number {
+  const parts = getZonedParts(ms, timeZone)
+  const wallMs = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute)
+  return wallMs - Math.floor(ms / MINUTE_MS) * MINUTE_MS
+}
+
+/**
+ * The instant a clock in a time zone shows a wall-clock time. Like the Date constructor does for
+ * local time, a time skipped when clocks go forward is moved forward by the jump, and a time that
+ * happens twice when clocks go back gives the first of the two.
+ * @param year Full year
+ * @param month 1-12; out of range values roll over, as with Date.UTC
+ * @param day Day of the month; out of range values roll over
+ * @param hour 0-23
+ * @param minute 0-59
+ * @param timeZone IANA time zone name
+ * @returns Epoch ms
+ */
+export function zonedTimeToEpoch(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number {
+  const wallMs = Date.UTC(year, month - 1, day, hour, minute)
+
+  // Clocks change at most once around any one time, so the offset is one of the two a day either side
+  const offsetBefore = getTimeZoneOffsetMs(wallMs - DAY_MS, timeZone)
+  const offsetAfter = getTimeZoneOffsetMs(wallMs + DAY_MS, timeZone)
+
+  const matches = [...new Set([offsetBefore, offsetAfter])]
+    .map(offset => wallMs - offset)
+    .filter(ms => getTimeZoneOffsetMs(ms, timeZone) === wallMs - ms)
+
+  return matches.length > 0 ? Math.min(...matches) : wallMs - offsetBefore
+}
+
+/**
+ * Calendar days from one time to another in a time zone, e.g. 1 from Monday night to Tuesday morning
+ * @param fromMs Epoch ms
+ * @param toMs Epoch ms
+ * @param timeZone IANA time zone name
+ * @returns Whole days, negative when toMs is on an earlier day
+ */
+export function getCalendarDaysBetween(fromMs: number, toMs: number, timeZone: string): number {
+  const from = getZonedParts(fromMs, timeZone)
+  const to = getZonedParts(toMs, timeZone)
+  return Math.round((Date.UTC(to.year, to.month - 1, to.day) - Date.UTC(from.year, from.month - 1, from.day)) / DAY_MS)
+}
+
+/**
+ * Format a date as a value for a datetime-local input, in local time
+ * @param date The date
+ * @returns E.g. "2024-03-10T08:30"
+ */
+export function toDateTimeLocal(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}T${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`
+}
+
+/**
+ * Format a date and time for display
+ * @param value A date, ISO date string or epoch ms
+ * @param timeZone Time zone to show it in (defaults to the device's)
+ * @returns E.g. "Mar 10, 2024, 08:30 AM"
+ */
+export function formatDateTime(value: Date | string | number, timeZone?: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+/**
+ * Format a date without its time for display
+ * @param value A date, ISO date string or epoch ms
+ * @param timeZone Time zone to show it in (defaults to the device's)
+ * @returns E.g. "Mar 10, 2024"
+ */
+export function formatDay(value: Date | string | number, timeZone?: string): string {
+  return new Date(value).toLocaleDateString('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+/**
+ * Format just the time of day for display
+ * @param value A date, ISO date string or epoch ms
+ * @param timeZone Time zone to show it in (defaults to the device's)
+ * @returns E.g. "8:30 AM"
+ */
+export function formatTimeOfDay(value: Date | string | number, timeZone?: string): string {
+  return new Date(value).toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' })
+}
+
+/**
+ * Short name of a time zone as it is at an instant
+ * @param timeZone IANA time zone name
+ * @param at When, since abbreviations change with daylight saving time
+ * @returns E.g. "PST" or "GMT+2"
+ */
+export function getTimeZoneAbbreviation(timeZone: string, at: Date | number = Date.now()): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(at))
+    .find(item => item.type === 'timeZoneName')
+  return part?.value ?? timeZone
+}
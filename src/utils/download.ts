@@ -0,0 +1,19 @@
+/**
+ * Save text content as a file through the browser's download prompt
+ * @param filename Suggested file name
+ * @param content File contents
+ * @param mimeType MIME type of the content
+ */
+export function downloadFile(filename: string, content: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,143 @@
+// Product identifier of the files this app makes, by default
+const PRODUCT_ID = '-//Luna\'s EstroPad Tracker//Patch Schedule//EN'
+
+// An event in an iCalendar (RFC 5545) file
+export interface CalendarEvent {
+  uid: string // Stable across exports, so calendar apps update events instead of duplicating them
+  start: Date
+  end?: Date
+  allDay?: boolean
+  summary: string
+  description?: string
+  status?: 'CONFIRMED' | 'CANCELLED'
+  sequence?: number // Must increase when an event changes in a way the calendar should apply
+  alarmMinutesBefore?: number // Minutes before the start; negative values alarm after the start
+}
+
+/**
+ * Escape a text value (RFC 5545 section 3.3.11)
+ * @param text The text to escape
+ * @returns The escaped text
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Format a time as a UTC date-time, e.g. 20240131T090000Z
+ * @param date The time to format
+ * @returns The iCalendar date-time
+ */
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Format a local calendar day as an iCalendar date, e.g. 20240131
+ * @param date A time on the day
+ * @returns The iCalendar date
+ */
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}${month}${day}`
+}
+
+/**
+ * Format an alarm offset as a duration, e.g. -PT24H or PT30M
+ * @param minutesBefore Minutes before the event start
+ * @returns The iCalendar duration
+ */
+function formatTrigger(minutesBefore: number): string {
+  const sign = minutesBefore > 0 ? '-' : ''
+  const minutes = Math.abs(Math.round(minutesBefore))
+  return minutes % 60 === 0 ? `${sign}PT${minutes / 60}H` : `${sign}PT${minutes}M`
+}
+
+/**
+ * Fold a content line to at most 75 octets, continuing with a leading space
+ * @param line The unfolded line
+ * @returns The folded line
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74
+
+    if (currentBytes + bytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+    }
+
+    current += char
+    currentBytes += bytes
+  }
+
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+/**
+ * Build an iCalendar file
+ * @param name Calendar name shown by calendar apps
+ * @param events The events to include
+ * @param productId Identifier of the app that made the file (PRODID)
+ * @returns The .ics document
+ */
+export function buildCalendar(name: string, events: CalendarEvent[], productId = PRODUCT_ID): string {
+  const stamp = formatDateTime(new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${productId}`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(name)}`
+  ]
+
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`)
+
+    if (event.allDay) {
+      const nextDay = new Date(event.start.getFullYear(), event.start.getMonth(), event.start.getDate() + 1)
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(nextDay)}`)
+    } else {
+      lines.push(`DTSTART:${formatDateTime(event.start)}`)
+      if (event.end) {
+        lines.push(`DTEND:${formatDateTime(event.end)}`)
+      }
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`)
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+    }
+    lines.push(`STATUS:${event.status || 'CONFIRMED'}`, `SEQUENCE:${event.sequence || 0}`)
+
+    if (event.alarmMinutesBefore !== undefined && event.status !== 'CANCELLED') {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:${formatTrigger(event.alarmMinutesBefore)}`,
+        'END:VALARM'
+      )
+    }
+
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
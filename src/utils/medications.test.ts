@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getLongestWeekdayGapHours,
+  getLotQuantities,
+  getNextDueAt,
+  getPatchChangeDueAt,
+  getSlotAfter,
+  getSlotAtOrBefore,
+  type MedicationSchedule
+} from './medications'
+
+const NEW_YORK = 'America/New_York'
+const BERLIN = 'Europe/Berlin'
+
+const HOUR_MS = 60 * 60 * 1000
+
+const daily: MedicationSchedule = { kind: 'times', times: ['08:00', '20:00'] }
+const night: MedicationSchedule = { kind: 'times', times: ['02:30'] }
+const sundays: MedicationSchedule = { kind: 'weekdays', weekdays: [0], time: '09:00' }
+const twiceWeekly: Extract<MedicationSchedule, { kind: 'weekdays' }> = { kind: 'weekdays', weekdays: [1, 4], time: '09:00' }
+
+describe('getSlotAfter', () => {
+  it('keeps times of day on the clock across the US spring change', () => {
+    // Saturday 20:00 EST, then Sunday 08:00 EDT
+    expect(getSlotAfter(daily, Date.UTC(2026, 2, 7, 14, 0), NEW_YORK)).toBe(Date.UTC(2026, 2, 8, 1, 0))
+    expect(getSlotAfter(daily, Date.UTC(2026, 2, 8, 1, 0), NEW_YORK)).toBe(Date.UTC(2026, 2, 8, 12, 0))
+  })
+
+  it('keeps times of day on the clock across the EU autumn change', () => {
+    // Saturday 20:00 CEST, then Sunday 08:00 CET
+    expect(getSlotAfter(daily, Date.UTC(2026, 9, 24, 12, 0), BERLIN)).toBe(Date.UTC(2026, 9, 24, 18, 0))
+    expect(getSlotAfter(daily, Date.UTC(2026, 9, 24, 18, 0), BERLIN)).toBe(Date.UTC(2026, 9, 25, 7, 0))
+  })
+
+  it('moves a slot skipped by the spring change past the gap', () => {
+    expect(getSlotAfter(night, Date.UTC(2026, 2, 8, 5, 0), NEW_YORK)).toBe(Date.UTC(2026, 2, 8, 7, 30))
+    expect(getSlotAfter(night, Date.UTC(2026, 2, 29, 0, 0), BERLIN)).toBe(Date.UTC(2026, 2, 29, 1, 30))
+  })
+
+  it('gives a slot repeated by the autumn change once', () => {
+    const slot = getSlotAfter(night, Date.UTC(2026, 9, 24, 12, 0), BERLIN)
+    expect(slot).toBe(Date.UTC(2026, 9, 25, 0, 30))
+    expect(getSlotAfter(night, slot!, BERLIN)).toBe(Date.UTC(2026, 9, 26, 1, 30))
+  })
+
+  it('finds the next weekday across a change', () => {
+    // Sunday 09:00 CET before the change, then Sunday 09:00 CEST after it
+    expect(getSlotAfter(sundays, Date.UTC(2026, 2, 22, 8, 0), BERLIN)).toBe(Date.UTC(2026, 2, 29, 7, 0))
+    expect(getSlotAfter(sundays, Date.UTC(2026, 9, 31, 12, 0), NEW_YORK)).toBe(Date.UTC(2026, 10, 1, 14, 0))
+  })
+
+  it('uses the calendar of the time zone given', () => {
+    // Monday 23:00 in New York is already Tuesday in Berlin
+    const mondayNight = Date.UTC(2026, 9, 20, 3, 0)
+    expect(getSlotAfter(twiceWeekly, mondayNight, NEW_YORK)).toBe(Date.UTC(2026, 9, 22, 13, 0))
+    expect(getSlotAfter(twiceWeekly, mondayNight, BERLIN)).toBe(Date.UTC(2026, 9, 22, 7, 0))
+  })
+})
+
+describe('getSlotAtOrBefore', () => {
+  it('includes a slot at exactly the time given', () => {
+    expect(getSlotAtOrBefore(daily, Date.UTC(2026, 2, 8, 12, 0), NEW_YORK)).toBe(Date.UTC(2026, 2, 8, 12, 0))
+  })
+
+  it('looks back across the US autumn change', () => {
+    // Monday 07:00 EST goes back to Sunday 20:00 EST
+    expect(getSlotAtOrBefore(daily, Date.UTC(2026, 10, 2, 12, 0), NEW_YORK)).toBe(Date.UTC(2026, 10, 2, 1, 0))
+    // Sunday 07:00 EST goes back to Saturday 20:00 EDT
+    expect(getSlotAtOrBefore(daily, Date.UTC(2026, 10, 1, 12, 0), NEW_YORK)).toBe(Date.UTC(2026, 10, 1, 0, 0))
+  })
+
+  it('looks back a week for a weekday across the EU spring change', () => {
+    expect(getSlotAtOrBefore(sundays, Date.UTC(2026, 3, 4, 12, 0), BERLIN)).toBe(Date.UTC(2026, 2, 29, 7, 0))
+    expect(getSlotAtOrBefore(sundays, Date.UTC(2026, 2, 29, 6, 59), BERLIN)).toBe(Date.UTC(2026, 2, 22, 8, 0))
+  })
+})
+
+describe('getNextDueAt', () => {
+  it('has no due time before the first dose', () => {
+    expect(getNextDueAt(daily, null, NEW_YORK)).toBeNull()
+  })
+
+  it('counts intervals in absolute time, whatever the clocks do', () => {
+    const interval: MedicationSchedule = { kind: 'interval', everyHours: 84 }
+    const takenMs = Date.UTC(2026, 2, 6, 20, 0)
+    expect(getNextDueAt(interval, takenMs, NEW_YORK)).toBe(takenMs + 84 * HOUR_MS)
+    expect(getNextDueAt(interval, Date.UTC(2026, 9, 23, 20, 0), BERLIN)).toBe(Date.UTC(2026, 9, 23, 20, 0) + 84 * HOUR_MS)
+  })
+
+  it('keeps a daily dose at the same clock time across the US spring change', () => {
+    // Saturday 08:00 EST to Sunday 08:00 EDT is only 23 hours
+    expect(getNextDueAt({ kind: 'times', times: ['08:00'] }, Date.UTC(2026, 2, 7, 13, 0), NEW_YORK)).toBe(Date.UTC(2026, 2, 8, 12, 0))
+  })
+
+  it('keeps a daily dose at the same clock time across the EU autumn change', () => {
+    expect(getNextDueAt({ kind: 'times', times: ['08:00'] }, Date.UTC(2026, 9, 24, 6, 0), BERLIN)).toBe(Date.UTC(2026, 9, 25, 7, 0))
+  })
+
+  it('counts an early or late dose for the nearest slot', () => {
+    // 19:00 EDT is nearest 20:00, so the next is 08:00 the next day
+    expect(getNextDueAt(daily, Date.UTC(2026, 6, 15, 23, 0), NEW_YORK)).toBe(Date.UTC(2026, 6, 16, 12, 0))
+    // 10:00 EDT is nearest 08:00, so the next is 20:00 the same day
+    expect(getNextDueAt(daily, Date.UTC(2026, 6, 15, 14, 0), NEW_YORK)).toBe(Date.UTC(2026, 6, 16, 0, 0))
+  })
+
+  it('follows weekdays across the EU autumn change', () => {
+    // Thursday 09:00 CEST, then Monday 09:00 CET
+    expect(getNextDueAt(twiceWeekly, Date.UTC(2026, 9, 22, 7, 0), BERLIN)).toBe(Date.UTC(2026, 9, 26, 8, 0))
+  })
+})
+
+describe('getLongestWeekdayGapHours', () => {
+  it('finds the longest wait, wrapping round the week', () => {
+    expect(getLongestWeekdayGapHours([1, 4])).toBe(96)
+    expect(getLongestWeekdayGapHours([4, 1, 1])).toBe(96)
+    expect(getLongestWeekdayGapHours([0])).toBe(168)
+    expect(getLongestWeekdayGapHours([])).toBe(0)
+  })
+})
+
+describe('getPatchChangeDueAt', () => {
+  // Monday 13 to Monday 20 July 2026, 09:00 EDT is 13:00 UTC
+  const monday = Date.UTC(2026, 6, 13, 13, 0)
+  const thursday = Date.UTC(2026, 6, 16, 13, 0)
+  const nextMonday = Date.UTC(2026, 6, 20, 13, 0)
+
+  it('follows a late Monday change on Wednesday with Thursday', () => {
+    expect(getPatchChangeDueAt(twiceWeekly, Date.UTC(2026, 6, 15, 14, 0), monday, 96, NEW_YORK)).toBe(thursday)
+  })
+
+  it('follows a late Thursday change on Saturday night with Monday', () => {
+    expect(getPatchChangeDueAt(twiceWeekly, Date.UTC(2026, 6, 19, 1, 0), thursday, 96, NEW_YORK)).toBe(nextMonday)
+  })
+
+  it('counts a change for the last change day without the replaced due time', () => {
+    expect(getPatchChangeDueAt(twiceWeekly, Date.UTC(2026, 6, 15, 14, 0), null, 96, NEW_YORK)).toBe(thursday)
+  })
+
+  it('keeps the next change day after a slightly early change', () => {
+    expect(getPatchChangeDueAt(twiceWeekly, monday - HOUR_MS, monday, 96, NEW_YORK)).toBe(thursday)
+  })
+
+  it('never leaves a patch on past its wear time after an early change', () => {
+    const wednesday = Date.UTC(2026, 6, 15, 14, 0)
+    expect(getPatchChangeDueAt(twiceWeekly, wednesday, thursday, 96, NEW_YORK)).toBe(wednesday + 96 * HOUR_MS)
+  })
+
+  it('allows for the extra hour when EU clocks go back', () => {
+    // Thursday 09:00 CEST to Monday 09:00 CET is 97 hours
+    expect(getPatchChangeDueAt(twiceWeekly, Date.UTC(2026, 9, 22, 7, 0), null, 96, BERLIN)).toBe(Date.UTC(2026, 9, 26, 8, 0))
+  })
+})
+
+describe('getLotQuantities', () => {
+  it('adds up each lot\'s entries without going below zero', () => {
+    const ledger = [
+      { lotId: 'a', delta: 8 },
+      { lotId: 'a', delta: -2 },
+      { lotId: 'b', delta: 1 },
+      { lotId: 'b', delta: -1 },
+      { lotId: 'b', delta: -1 },
+      { delta: 4 }
+    ]
+    expect(getLotQuantities(ledger)).toEqual(new Map([['a', 6], ['b', 0]]))
+  })
+})
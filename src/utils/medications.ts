@@ -0,0 +1,336 @@
+import { WEEKDAY_LABELS } from './adherence'
+import { getDeviceTimeZone, getTimeZoneOffsetMs, getZonedParts, zonedTimeToEpoch } from './date'
+
+export type DeliveryKind = 'patch' | 'pill' | 'injection' | 'gel' | 'sublingual'
+
+// How often a medication is due
+export type MedicationSchedule =
+  | { kind: 'interval', everyHours: number } // Every N hours after the last dose
+  | { kind: 'times', times: string[] } // Every day at these local times ("HH:MM")
+  | { kind: 'weekdays', weekdays: number[], time: string } // On these days of the week (0 = Sunday) at a local time
+
+export type ScheduleKind = MedicationSchedule['kind']
+
+// Ways a medication is taken, in display order, with what one unit of stock is called
+export const DELIVERY_KINDS: { value: DeliveryKind, label: string, unit: string, units: string }[] = [
+  { value: 'patch', label: 'Patch', unit: 'patch', units: 'patches' },
+  { value: 'pill', label: 'Pill', unit: 'pill', units: 'pills' },
+  { value: 'injection', label: 'Injection', unit: 'syringe', units: 'syringes' },
+  { value: 'gel', label: 'Gel', unit: 'sachet', units: 'sachets' },
+  { value: 'sublingual', label: 'Sublingual', unit: 'tablet', units: 'tablets' }
+]
+
+export const SCHEDULE_KINDS: { value: ScheduleKind, label: string }[] = [
+  { value: 'interval', label: 'Every N hours' },
+  { value: 'times', label: 'Times of day' },
+  { value: 'weekdays', label: 'Fixed weekdays' }
+]
+
+// Storage keys of the patch-only model, and the keys their data moved to
+export const LEGACY_MEDICATION_KEYS: Record<string, string> = {
+  'patch-types': 'medications',
+  'patch-inventory-lots': 'medication-lots',
+  'patch-inventory-ledger': 'medication-ledger',
+  'patch-applications': 'medication-doses',
+  'patch-applications-version': 'medication-doses-version'
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+// Days searched for the next or previous slot; every schedule has one within a week
+const SLOT_SEARCH_DAYS = 8
+
+/**
+ * What one unit of a medication's stock is called
+ * @param deliveryKind How the medication is taken
+ * @param count Number of units, to pick singular or plural
+ * @returns E.g. "patch" or "pills"
+ */
+export function getUnitName(deliveryKind: DeliveryKind, count = 1): string {
+  const kind = DELIVERY_KINDS.find(item => item.value === deliveryKind) ?? DELIVERY_KINDS[0]
+  return count === 1 ? kind.unit : kind.units
+}
+
+/**
+ * Check a schedule can be followed
+ * @param schedule The schedule to check
+ * @throws When the schedule has no valid due times
+ */
+export function validateSchedule(schedule: MedicationSchedule) {
+  if (schedule.kind === 'interval') {
+    if (!Number.isFinite(schedule.everyHours) || schedule.everyHours <= 0) {
+      throw new Error('The interval must be more than 0 hours')
+    }
+    return
+  }
+
+  const times = schedule.kind === 'times' ? schedule.times : [schedule.time]
+  if (times.length === 0) {
+    throw new Error('Please add at least one time of day')
+  }
+  if (!times.every(time => TIME_PATTERN.test(time))) {
+    throw new Error('Times of day must be in HH:MM format')
+  }
+
+  if (schedule.kind === 'weekdays') {
+    if (schedule.weekdays.length === 0) {
+      throw new Error('Please pick at least one day of the week')
+    }
+    if (!schedule.weekdays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+      throw new Error('Invalid day of the week')
+    }
+  }
+}
+
+/**
+ * Describe a schedule for display
+ * @param schedule The schedule
+ * @returns E.g. "Every 12 hours", "Daily at 08:00, 20:00" or "Mon, Thu at 09:00"
+ */
+export function describeSchedule(schedule: MedicationSchedule): string {
+  if (schedule.kind === 'interval') {
+    const hours = schedule.everyHours
+    if (hours % 24 === 0) {
+      const days = hours / 24
+      return days === 1 ? 'Every day' : `Every ${days} days`
+    }
+    return hours === 1 ? 'Every hour' : `Every ${hours} hours`
+  }
+
+  if (schedule.kind === 'times') {
+    return `Daily at ${[...schedule.times].sort().join(', ')}`
+  }
+
+  const days = [...schedule.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day])
+  return `${days.join(', ')} at ${schedule.time}`
+}
+
+/**
+ * Average number of doses a schedule calls for each day
+ * @param schedule The schedule
+ * @returns Doses per day
+ */
+export function getDosesPerDay(schedule: MedicationSchedule): number {
+  if (schedule.kind === 'interval') return schedule.everyHours > 0 ? 24 / schedule.everyHours : 0
+  if (schedule.kind === 'times') return schedule.times.length
+  return schedule.weekdays.length / 7
+}
+
+// A calendar day in a time zone
+interface ZonedDay {
+  year: number
+  month: number // 1-12
+  day: number
+  weekday: number // 0 = Sunday
+}
+
+// Due times of a fixed schedule on a calendar day, earliest first. Each is found in absolute time,
+// so a day when the clocks change still gets its doses at the times on the clock.
+function getDaySlots(schedule: Exclude<MedicationSchedule, { kind: 'interval' }>, day: ZonedDay, timeZone: string): number[] {
+  const times = schedule.kind === 'times'
+    ? schedule.times
+    : schedule.weekdays.includes(day.weekday) ? [schedule.time] : []
+
+  return times
+    .map(time => {
+      const [hours, minutes] = time.split(':').map(Number)
+      return zonedTimeToEpoch(day.year, day.month, day.day, hours, minutes, timeZone)
+    })
+    .sort((a, b) => a - b)
+}
+
+// The calendar day in a time zone a number of days after the one containing a time
+function getDay(ms: number, offsetDays: number, timeZone: string): ZonedDay {
+  const parts = getZonedParts(ms, timeZone)
+  const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + offsetDays))
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay()
+  }
+}
+
+/**
+ * First due time of a fixed schedule after a time
+ * @param schedule A times-of-day or weekday schedule
+ * @param afterMs Epoch ms to search from
+ * @param timeZone Time zone the schedule's times are in (defaults to the device's)
+ * @returns Epoch ms, or null when the schedule has no due times
+ */
+export function getSlotAfter(
+  schedule: Exclude<MedicationSchedule, { kind: 'interval' }>,
+  afterMs: number,
+  timeZone = getDeviceTimeZone()
+): number | null {
+  for (let offset = 0; offset < SLOT_SEARCH_DAYS; offset++) {
+    const slot = getDaySlots(schedule, getDay(afterMs, offset, timeZone), timeZone).find(ms => ms > afterMs)
+    if (slot !== undefined) return slot
+  }
+  return null
+}
+
+/**
+ * Last due time of a fixed schedule at or before a time
+ * @param schedule A times-of-day or weekday schedule
+ * @param atMs Epoch ms to search back from
+ * @param timeZone Time zone the schedule's times are in (defaults to the device's)
+ * @returns Epoch ms, or null when the schedule has no due times
+ */
+export function getSlotAtOrBefore(
+  schedule: Exclude<MedicationSchedule, { kind: 'interval' }>,
+  atMs: number,
+  timeZone = getDeviceTimeZone()
+): number | null {
+  for (let offset = 0; offset < SLOT_SEARCH_DAYS; offset++) {
+    const slots = getDaySlots(schedule, getDay(atMs, -offset, timeZone), timeZone).filter(ms => ms <= atMs)
+    if (slots.length > 0) return slots[slots.length - 1]
+  }
+  return null
+}
+
+/**
+ * When the next dose is due. An interval runs from the last dose in absolute time, so it is the
+ * same number of hours whether or not the clocks change; on a fixed schedule the last dose counts
+ * for the due time nearest to it, early or late, and the next due time follows that.
+ * @param schedule The medication's schedule
+ * @param lastTakenMs Epoch ms of the last dose, or null before the first
+ * @param timeZone Time zone a fixed schedule's times are in (defaults to the device's)
+ * @returns Epoch ms, or null until the first dose is recorded
+ */
+export function getNextDueAt(schedule: MedicationSchedule, lastTakenMs: number | null, timeZone = getDeviceTimeZone()): number | null {
+  if (lastTakenMs === null) return null
+
+  if (schedule.kind === 'interval') {
+    return lastTakenMs + schedule.everyHours * HOUR_MS
+  }
+
+  const previous = getSlotAtOrBefore(schedule, lastTakenMs, timeZone)
+  const next = getSlotAfter(schedule, lastTakenMs, timeZone)
+  if (next === null) return null
+
+  const covered = previous !== null && lastTakenMs - previous <= next - lastTakenMs ? previous : next
+  return getSlotAfter(schedule, covered, timeZone)
+}
+
+/**
+ * Longest wait between two change days of a weekday schedule, which a patch on it must last
+ * @param weekdays Days of the week (0 = Sunday)
+ * @returns Hours, e.g. 96 for Monday and Thursday
+ */
+export function getLongestWeekdayGapHours(weekdays: number[]): number {
+  const days = [...new Set(weekdays)].sort((a, b) => a - b)
+  if (days.length === 0) return 0
+
+  const gaps = days.map((day, index) => (days[(index + 1) % days.length] - day + 7) % 7 || 7)
+  return Math.max(...gaps) * 24
+}
+
+/**
+ * When a patch on a weekday schedule is due to be changed. Putting it on counts for the change
+ * day it replaced the last patch on, so a late change is followed by the next change day after
+ * it rather than a skipped one, and an early change by the one after the day it stood in for.
+ * The patch is never left on for longer than it lasts.
+ * @param schedule The weekday schedule
+ * @param appliedAtMs Epoch ms the patch went on
+ * @param replacedDueAtMs Epoch ms the patch it replaced was due to come off, or null to count it
+ * for the last change day before it went on
+ * @param maxWearHours How long the patch lasts
+ * @param timeZone Time zone the schedule's times are in (defaults to the device's)
+ * @returns Epoch ms, or null when the schedule has no change days
+ */
+export function getPatchChangeDueAt(
+  schedule: Extract<MedicationSchedule, { kind: 'weekdays' }>,
+  appliedAtMs: number,
+  replacedDueAtMs: number | null,
+  maxWearHours: number,
+  timeZone = getDeviceTimeZone()
+): number | null {
+  const nextMs = getSlotAfter(schedule, Math.max(replacedDueAtMs ?? appliedAtMs, appliedAtMs), timeZone)
+  if (nextMs === null) return null
+
+  // Clocks going back while the patch is on stretch the wait between change days by the time they repeat
+  const wornOutMs = appliedAtMs + maxWearHours * HOUR_MS
+  const repeatedMs = Math.max(0, getTimeZoneOffsetMs(appliedAtMs, timeZone) - getTimeZoneOffsetMs(wornOutMs, timeZone))
+  return Math.min(nextMs, wornOutMs + repeatedMs)
+}
+
+/**
+ * Count each lot from its ledger entries. Two devices can both take from a lot before syncing,
+ * so after merging their records the ledger is the only reliable count.
+ * @param ledger Inventory ledger entries
+ * @returns Units left by lot id, never below zero, for lots with entries
+ */
+export function getLotQuantities(ledger: { lotId?: string, delta: number }[]): Map<string, number> {
+  const totals = new Map<string, number>()
+
+  for (const entry of ledger) {
+    if (entry.lotId) {
+      totals.set(entry.lotId, (totals.get(entry.lotId) || 0) + entry.delta)
+    }
+  }
+
+  for (const [lotId, total] of totals) {
+    totals.set(lotId, Math.max(0, total))
+  }
+
+  return totals
+}
+
+/**
+ * Bring a record saved before medications replaced patch types up to date: patchTypeId becomes
+ * medicationId, appliedAt becomes takenAt and applicationId becomes doseId. Works for
+ * lots, ledger entries, applications and prescriptions alike.
+ * @param record A stored record
+ * @returns The record with its fields renamed
+ */
+export function upgradeLegacyRecord<T>(record: Record<string, unknown>): T {
+  const { patchTypeId, appliedAt, applicationId, ...rest } = record
+  const upgraded: Record<string, unknown> = { ...rest }
+
+  if (patchTypeId !== undefined) upgraded.medicationId = patchTypeId
+  if (appliedAt !== undefined) upgraded.takenAt = appliedAt
+  if (applicationId !== undefined) upgraded.doseId = applicationId
+
+  return upgraded as T
+}
+
+/**
+ * Turn a stored patch type into a patch medication, changed every time its wear time is up
+ * @param patchType A stored patch type
+ * @returns The medication
+ */
+export function upgradeLegacyPatchType<T>(patchType: Record<string, unknown>): T {
+  const durationHours = Number(patchType.durationHours) || 0
+  return {
+    ...patchType,
+    deliveryKind: 'patch',
+    schedule: { kind: 'interval', everyHours: durationHours }
+  } as T
+}
+
+/**
+ * Move data stored under the patch-only keys to the medication keys. Used for backups;
+ * the stores read the old keys themselves the first time they load.
+ * @param data Stored values by key
+ * @returns The same data under the new keys
+ */
+export function upgradeLegacyData(data: Record<string, unknown>): Record<string, unknown> {
+  const upgraded: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(data)) {
+    const newKey = LEGACY_MEDICATION_KEYS[key]
+
+    if (key === 'patch-types' && Array.isArray(value)) {
+      upgraded[newKey] = value.map(item => upgradeLegacyPatchType(item))
+    } else if ((newKey || key === 'prescriptions') && Array.isArray(value)) {
+      upgraded[newKey || key] = value.map(item => upgradeLegacyRecord(item))
+    } else {
+      upgraded[newKey || key] = value
+    }
+  }
+
+  return upgraded
+}
@@ -0,0 +1,40 @@
+import type { Ref } from 'vue'
+import type { UseStorageOptions } from '@vueuse/core'
+import { useUserStorage } from './userStorage'
+
+// Anything kept as a list of records with IDs
+export interface SyncRecord {
+  id: string
+}
+
+export interface CollectionOptions {
+  // How to settle a record changed both here and elsewhere: ask the user, or take the other copy.
+  // Taking the other copy suits records that never change once written, like ledger entries.
+  conflicts?: 'ask' | 'remote'
+}
+
+// Where stores keep their data. Collections may be synced record by record; values stay on this device.
+export interface PersistenceAdapter {
+  useValue<T>(key: string, defaults: T | (() => T), options?: UseStorageOptions<T>): Ref<T>
+  useCollection<T extends SyncRecord>(key: string, defaults: T[] | (() => T[]), options?: CollectionOptions): Ref<T[]>
+  // Called with the key of a collection after changes from elsewhere are written into it
+  onRemoteChange(callback: (key: string) => void): void
+}
+
+/**
+ * Storage in this browser only
+ * @returns A persistence adapter backed by localStorage
+ */
+export function createLocalStorageAdapter(): PersistenceAdapter {
+  return {
+    useValue(key, defaults, options) {
+      return useUserStorage(key, defaults, options)
+    },
+    useCollection(key, defaults) {
+      return useUserStorage(key, defaults)
+    },
+    onRemoteChange() {
+      // Nothing changes from elsewhere
+    }
+  }
+}
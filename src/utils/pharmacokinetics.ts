@@ -0,0 +1,100 @@
+/**
+ * Tunable parameters of the transdermal estradiol model
+ */
+export interface PharmacokineticParams {
+  lagHours: number // Delay between a patch going on (or off) and serum responding
+  halfLifeHours: number // Apparent half-life of serum estradiol after a patch comes off
+  pgPerMlPerMcgDay: number // Steady-state serum level per µg/day delivered
+  depletionHalfLifeHours: number // How quickly delivery fades when a patch is worn past its rated duration
+}
+
+export const DEFAULT_PK_PARAMS: PharmacokineticParams = {
+  lagHours: 2,
+  halfLifeHours: 6,
+  pgPerMlPerMcgDay: 1,
+  depletionHalfLifeHours: 24
+}
+
+/**
+ * One patch on the body, as input to the model
+ */
+export interface DosingInterval {
+  startMs: number // When the patch went on
+  endMs: number // When the patch came off (or is projected to)
+  ratedEndMs: number // End of the labelled wear time
+  doseMcgPerDay: number
+  params: PharmacokineticParams
+}
+
+export interface SerumPoint {
+  at: Date
+  pgPerMl: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * Delivery rate of a patch at a given time, after the absorption lag
+ * @param interval The patch
+ * @param atMs Time to evaluate
+ * @returns Delivery rate in µg/day
+ */
+export function getDeliveryRate(interval: DosingInterval, atMs: number): number {
+  const t = atMs - interval.params.lagHours * HOUR_MS
+
+  if (t < interval.startMs || t >= interval.endMs) return 0
+  if (t <= interval.ratedEndMs) return interval.doseMcgPerDay
+
+  // Worn late: the reservoir is running down
+  const lateHours = (t - interval.ratedEndMs) / HOUR_MS
+  return interval.doseMcgPerDay * Math.pow(0.5, lateHours / interval.params.depletionHalfLifeHours)
+}
+
+/**
+ * Estimate serum estradiol from a set of patches using a one-compartment model.
+ * Each patch contributes independently, so overlapping patches add up.
+ * @param intervals Patches worn (and projected) over the period
+ * @param fromMs Start of the curve
+ * @param toMs End of the curve
+ * @param stepMs Resolution of the curve
+ * @returns Estimated serum level at each step
+ */
+export function simulateSerumLevels(
+  intervals: DosingInterval[],
+  fromMs: number,
+  toMs: number,
+  stepMs: number = HOUR_MS
+): SerumPoint[] {
+  const steps = Math.max(0, Math.floor((toMs - fromMs) / stepMs)) + 1
+  const totals = new Array<number>(steps).fill(0)
+
+  for (const interval of intervals) {
+    const { lagHours, halfLifeHours, pgPerMlPerMcgDay } = interval.params
+    const k = Math.LN2 / (halfLifeHours * HOUR_MS)
+    const decay = Math.exp(-k * stepMs)
+
+    // Patches that ended long before the window no longer contribute
+    const fadedAt = interval.endMs + (lagHours + halfLifeHours * 10) * HOUR_MS
+    if (fadedAt < fromMs || interval.startMs > toMs) continue
+
+    // Start simulating on the window's grid, from the step before the patch went on
+    const firstStep = Math.floor((interval.startMs - fromMs) / stepMs)
+    let level = 0
+
+    for (let n = firstStep; n < steps; n++) {
+      const atMs = fromMs + n * stepMs
+      if (atMs > fadedAt) break
+
+      if (n >= 0) totals[n] += level
+
+      // Exact solution of dC/dt = k * (target - C) over one step of constant delivery
+      const target = getDeliveryRate(interval, atMs) * pgPerMlPerMcgDay
+      level = target + (level - target) * decay
+    }
+  }
+
+  return totals.map((pgPerMl, n) => ({
+    at: new Date(fromMs + n * stepMs),
+    pgPerMl: Math.round(pgPerMl * 10) / 10
+  }))
+}
@@ -0,0 +1,35 @@
+// Longest side of a stored photo, in pixels. Photos live in local storage, which only holds a few megabytes.
+const PHOTO_MAX_SIZE = 800
+
+const PHOTO_QUALITY = 0.7
+
+/**
+ * Shrink a picked image and encode it so it can be kept in local storage
+ * @param file Image file from a file input
+ * @param maxSize Longest side of the result, in pixels
+ * @returns A JPEG data URL
+ */
+export async function readPhoto(file: File, maxSize = PHOTO_MAX_SIZE): Promise<string> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Please pick an image file')
+  }
+
+  const image = await createImageBitmap(file).catch(() => {
+    throw new Error('This image could not be read')
+  })
+
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(image.width * scale)
+  canvas.height = Math.round(image.height * scale)
+
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('This browser cannot process images')
+  }
+
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+  image.close()
+
+  return canvas.toDataURL('image/jpeg', PHOTO_QUALITY)
+}
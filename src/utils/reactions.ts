@@ -0,0 +1,142 @@
+export type ReactionType = 'redness' | 'itching' | 'rash' | 'blistering' | 'residue' | 'other'
+
+export const REACTION_TYPES: { value: ReactionType, label: string }[] = [
+  { value: 'redness', label: 'Redness' },
+  { value: 'itching', label: 'Itching' },
+  { value: 'rash', label: 'Rash or bumps' },
+  { value: 'blistering', label: 'Blistering' },
+  { value: 'residue', label: 'Sticky residue' },
+  { value: 'other', label: 'Other' }
+]
+
+// How well a patch stayed on, from best to worst
+export type AdhesionQuality = 'good' | 'edges-lifting' | 'partly-off' | 'fell-off'
+
+export const ADHESION_QUALITIES: { value: AdhesionQuality, label: string }[] = [
+  { value: 'good', label: 'Stayed on well' },
+  { value: 'edges-lifting', label: 'Edges lifting' },
+  { value: 'partly-off', label: 'Partly off' },
+  { value: 'fell-off', label: 'Fell off' }
+]
+
+// Reaction severity scale, 0 for no reaction
+export const SEVERITY_LEVELS: { value: number, label: string }[] = [
+  { value: 0, label: 'None' },
+  { value: 1, label: 'Mild' },
+  { value: 2, label: 'Moderate' },
+  { value: 3, label: 'Severe' },
+  { value: 4, label: 'Very severe' }
+]
+
+export const MAX_SEVERITY = SEVERITY_LEVELS[SEVERITY_LEVELS.length - 1].value
+
+// The observation fields the report reads
+interface ObservationFacts {
+  doseId: string
+  reactions: ReactionType[]
+  severity: number
+  adhesion: AdhesionQuality
+  cameOffEarly: boolean
+}
+
+// The application fields the report reads
+interface ObservedApplication {
+  id: string
+  removalReason?: string
+}
+
+// Problems with one group of patch applications, e.g. everything worn on one site
+export interface ProblemSummary {
+  key: string
+  label: string
+  applications: number // Patches worn
+  problems: number // Patches with a reaction, poor adhesion or an early fall
+  problemRate: number // Share of patches with problems (0-1)
+  averageSeverity: number | null // Worst severity per observed patch, averaged; null with no observations
+  cameOffEarly: number
+  topReaction: ReactionType | null // Reaction seen on the most patches
+}
+
+/**
+ * Whether an observation records something wrong with a patch
+ * @param observation The observation
+ * @returns True for any reaction, poor adhesion or an early fall
+ */
+export function isProblem(observation: ObservationFacts): boolean {
+  return observation.severity > 0 ||
+    observation.reactions.length > 0 ||
+    observation.adhesion !== 'good' ||
+    observation.cameOffEarly
+}
+
+/**
+ * Summarize problems per group of patch applications, such as per site or per brand.
+ * Patches removed because they fell off or irritated the skin count as problems even without an observation.
+ * @param applications Patch applications
+ * @param observations Observations of those applications
+ * @param getGroup Group an application belongs to, or null to leave it out
+ * @returns One summary per group, most problematic first
+ */
+export function summarizeProblems<T extends ObservedApplication>(
+  applications: T[],
+  observations: ObservationFacts[],
+  getGroup: (application: T) => { key: string, label: string } | null
+): ProblemSummary[] {
+  const observationsByDose = new Map<string, ObservationFacts[]>()
+  for (const observation of observations) {
+    observationsByDose.set(observation.doseId, [...(observationsByDose.get(observation.doseId) ?? []), observation])
+  }
+
+  const groups = new Map<string, {
+    label: string
+    applications: number
+    problems: number
+    severities: number[]
+    cameOffEarly: number
+    reactions: Map<ReactionType, number>
+  }>()
+
+  for (const application of applications) {
+    const group = getGroup(application)
+    if (!group) continue
+
+    const summary = groups.get(group.key) ?? {
+      label: group.label,
+      applications: 0,
+      problems: 0,
+      severities: [] as number[],
+      cameOffEarly: 0,
+      reactions: new Map<ReactionType, number>()
+    }
+    groups.set(group.key, summary)
+
+    const observed = observationsByDose.get(application.id) ?? []
+    const fellOff = application.removalReason === 'fell-off' || observed.some(observation => observation.cameOffEarly)
+    const irritated = application.removalReason === 'skin-irritation'
+
+    summary.applications++
+    if (fellOff || irritated || observed.some(isProblem)) summary.problems++
+    if (fellOff) summary.cameOffEarly++
+    if (observed.length > 0) summary.severities.push(Math.max(...observed.map(observation => observation.severity)))
+
+    // Count each reaction once per patch, however often it was noted
+    for (const reaction of new Set(observed.flatMap(observation => observation.reactions))) {
+      summary.reactions.set(reaction, (summary.reactions.get(reaction) ?? 0) + 1)
+    }
+  }
+
+  return [...groups]
+    .map(([key, summary]) => ({
+      key,
+      label: summary.label,
+      applications: summary.applications,
+      problems: summary.problems,
+      problemRate: summary.problems / summary.applications,
+      averageSeverity: summary.severities.length
+        ? summary.severities.reduce((sum, severity) => sum + severity, 0) / summary.severities.length
+        : null,
+      cameOffEarly: summary.cameOffEarly,
+      topReaction: [...summary.reactions].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null
+    }))
+    .sort((a, b) => b.problemRate - a.problemRate || b.problems - a.problems || a.label.localeCompare(b.label))
+}
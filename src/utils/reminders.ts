@@ -0,0 +1,136 @@
+export type ReminderStatus =
+  | 'scheduled'
+  | 'pre-reminder-sent'
+  | 'due'
+  | 'overdue'
+  | 'escalated'
+  | 'acknowledged'
+  | 'snoozed'
+
+// Statuses a reminder reaches on its own as time passes, in order
+const TIMED_STATUSES: ReminderStatus[] = ['scheduled', 'pre-reminder-sent', 'due', 'overdue', 'escalated']
+
+// When a patch change or dose reminder moves between its timed statuses
+export interface ReminderTimeline {
+  notifyAtMs: number // Pre-reminder
+  dueAtMs: number // Patch change or dose time
+  overdueAfterMs: number // Time past due before it counts as overdue
+  escalateAfterMs: number // Time past due before it escalates
+}
+
+/**
+ * The status a patch change or dose reminder should be in at a time, ignoring acknowledgement and snoozing
+ * @param timeline When the reminder's statuses start
+ * @param nowMs The time to evaluate at
+ * @returns The timed status
+ */
+export function getTimedStatus(timeline: ReminderTimeline, nowMs: number): ReminderStatus {
+  const { notifyAtMs, dueAtMs, overdueAfterMs, escalateAfterMs } = timeline
+
+  if (nowMs >= dueAtMs + escalateAfterMs) return 'escalated'
+  if (nowMs >= dueAtMs + overdueAfterMs) return 'overdue'
+  if (nowMs >= dueAtMs) return 'due'
+  if (nowMs >= notifyAtMs) return 'pre-reminder-sent'
+  return 'scheduled'
+}
+
+/**
+ * Whether a status comes after another as time passes
+ * @param status The status to compare
+ * @param than The status to compare against
+ * @returns True when status is later; false for acknowledged or snoozed
+ */
+export function isLaterStatus(status: ReminderStatus, than: ReminderStatus): boolean {
+  const index = TIMED_STATUSES.indexOf(status)
+  const thanIndex = TIMED_STATUSES.indexOf(than)
+  return index !== -1 && thanIndex !== -1 && index > thanIndex
+}
+
+/**
+ * Minutes since midnight for a "HH:MM" time
+ * @param time The time of day
+ * @returns Minutes since midnight, or null when the time is invalid
+ */
+function parseTimeOfDay(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time)
+  if (!match) return null
+
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 23 || minutes > 59) return null
+
+  return hours * 60 + minutes
+}
+
+/**
+ * Whether a time falls inside quiet hours. Ranges may cross midnight, e.g. 22:00 to 07:00.
+ * @param date The time to check, in local time
+ * @param start Start of quiet hours ("HH:MM")
+ * @param end End of quiet hours ("HH:MM")
+ * @returns True inside quiet hours
+ */
+export function isInQuietHours(date: Date, start: string, end: string): boolean {
+  const startMinutes = parseTimeOfDay(start)
+  const endMinutes = parseTimeOfDay(end)
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) return false
+
+  const minutes = date.getHours() * 60 + date.getMinutes()
+
+  return startMinutes < endMinutes
+    ? minutes >= startMinutes && minutes < endMinutes
+    : minutes >= startMinutes || minutes < endMinutes
+}
+
+/**
+ * The first time at or after a date that is outside quiet hours
+ * @param date The time to start from, in local time
+ * @param start Start of quiet hours ("HH:MM")
+ * @param end End of quiet hours ("HH:MM")
+ * @returns The date itself when outside quiet hours, otherwise when they end
+ */
+export function getQuietHoursEnd(date: Date, start: string, end: string): Date {
+  if (!isInQuietHours(date, start, end)) return date
+
+  const endMinutes = parseTimeOfDay(end)!
+  const endsAt = new Date(date.getFullYear(), date.getMonth(), date.getDate(), Math.floor(endMinutes / 60), endMinutes % 60)
+
+  if (endsAt.getTime() <= date.getTime()) {
+    endsAt.setDate(endsAt.getDate() + 1)
+  }
+  return endsAt
+}
+
+/**
+ * When the quiet hours around a date began
+ * @param date A time inside quiet hours, in local time
+ * @param start Start of quiet hours ("HH:MM")
+ * @param end End of quiet hours ("HH:MM")
+ * @returns The date itself when outside quiet hours, otherwise when they started
+ */
+export function getQuietHoursStart(date: Date, start: string, end: string): Date {
+  if (!isInQuietHours(date, start, end)) return date
+
+  const startMinutes = parseTimeOfDay(start)!
+  const startsAt = new Date(date.getFullYear(), date.getMonth(), date.getDate(), Math.floor(startMinutes / 60), startMinutes % 60)
+
+  if (startsAt.getTime() > date.getTime()) {
+    startsAt.setDate(startsAt.getDate() - 1)
+  }
+  return startsAt
+}
+
+/**
+ * When to change a patch that falls due while asleep. Changing early counts as on time, so the
+ * suggestion is the start of quiet hours before the due time, or now if that has already passed.
+ * @param dueAt When the change is due
+ * @param now The current time
+ * @param start Start of quiet hours ("HH:MM"), in the time of wherever the device is
+ * @param end End of quiet hours ("HH:MM")
+ * @returns The due time itself when it is outside quiet hours
+ */
+export function getSuggestedChangeTime(dueAt: Date, now: Date, start: string, end: string): Date {
+  const startsAt = getQuietHoursStart(dueAt, start, end)
+  if (startsAt.getTime() === dueAt.getTime()) return dueAt
+
+  return startsAt.getTime() > now.getTime() ? startsAt : now
+}
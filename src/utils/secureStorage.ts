@@ -0,0 +1,306 @@
+import { reactive } from 'vue'
+import type { StorageLike } from '@vueuse/core'
+
+// Device settings for the app lock. Kept readable so the app can ask for the passphrase.
+export const APP_LOCK_KEY = 'app-lock'
+
+// Privacy settings the lock screen needs before anything is unlocked
+export const PRIVACY_SETTINGS_KEY = 'privacy-settings'
+
+// Keys left unencrypted; everything else is encrypted while the app lock is on
+const PLAIN_KEYS = [APP_LOCK_KEY, PRIVACY_SETTINGS_KEY]
+
+// Marks an encrypted value in localStorage
+const ENCRYPTED_PREFIX = 'enc1:'
+
+const PBKDF2_ITERATIONS = 310000
+const IV_BYTES = 12
+
+// How the key that encrypts the data is kept, wrapped by a key derived from the passphrase.
+// Changing the passphrase only rewraps it, so the data never needs encrypting again.
+interface AppLockConfig {
+  version: 1
+  salt: string // Base64
+  iterations: number
+  iv: string // Base64, for wrapping the data key
+  wrappedKey: string // Base64
+}
+
+const state = reactive({
+  enabled: localStorage.getItem(APP_LOCK_KEY) !== null,
+  unlocked: false
+})
+
+// Key that encrypts the data, held in memory only while unlocked
+let dataKey: CryptoKey | null = null
+
+// Decrypted values while unlocked
+const cache = new Map<string, string>()
+
+// Latest write of each key, so a slow encryption never overwrites a newer value
+const writeVersions = new Map<string, number>()
+const pendingWrites = new Set<Promise<void>>()
+
+// Told about values that couldn't be written, e.g. because storage is full
+const writeErrorCallbacks: ((key: string, error: unknown) => void)[] = []
+
+function reportWriteError(key: string, error: unknown) {
+  for (const callback of writeErrorCallbacks) {
+    callback(key, error)
+  }
+}
+
+// Chunked so large values don't overflow the argument list
+function toBase64(bytes: ArrayBuffer | Uint8Array) {
+  const array = new Uint8Array(bytes)
+  let binary = ''
+  for (let i = 0; i < array.length; i += 0x8000) {
+    binary += String.fromCharCode(...array.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(text: string) {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0))
+}
+
+function readConfig(): AppLockConfig | null {
+  try {
+    return JSON.parse(localStorage.getItem(APP_LOCK_KEY) || 'null')
+  } catch {
+    return null
+  }
+}
+
+function getProtectedKeys() {
+  return Object.keys(localStorage).filter(key => !PLAIN_KEYS.includes(key))
+}
+
+async function deriveWrappingKey(passphrase: string, salt: Uint8Array, iterations: number) {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  )
+}
+
+// Wrap the data key under a new passphrase, with a fresh salt
+async function wrapDataKey(key: CryptoKey, passphrase: string): Promise<AppLockConfig> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const wrappedKey = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv })
+
+  return { version: 1, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, iv: toBase64(iv), wrappedKey: toBase64(wrappedKey) }
+}
+
+// Get the data key back with the passphrase. AES-GCM rejects a key derived from the wrong one.
+async function unwrapDataKey(config: AppLockConfig, passphrase: string, extractable = false) {
+  const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(config.salt), config.iterations)
+
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      fromBase64(config.wrappedKey),
+      wrappingKey,
+      { name: 'AES-GCM', iv: fromBase64(config.iv) },
+      { name: 'AES-GCM', length: 256 },
+      extractable,
+      ['encrypt', 'decrypt']
+    )
+  } catch {
+    throw new Error('Incorrect passphrase')
+  }
+}
+
+async function encrypt(key: CryptoKey, value: string) {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(value)))
+  const combined = new Uint8Array(IV_BYTES + ciphertext.length)
+  combined.set(iv)
+  combined.set(ciphertext, IV_BYTES)
+  return ENCRYPTED_PREFIX + toBase64(combined)
+}
+
+async function decrypt(key: CryptoKey, stored: string) {
+  const combined = fromBase64(stored.slice(ENCRYPTED_PREFIX.length))
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: combined.subarray(0, IV_BYTES) }, key, combined.subarray(IV_BYTES))
+  return new TextDecoder().decode(plaintext)
+}
+
+// Encrypt a value into localStorage in the background
+function writeEncrypted(key: string, value: string) {
+  const version = (writeVersions.get(key) ?? 0) + 1
+  writeVersions.set(key, version)
+
+  const write = encrypt(dataKey!, value)
+    .then(stored => {
+      if (writeVersions.get(key) === version) {
+        localStorage.setItem(key, stored)
+      }
+    })
+    .catch(error => {
+      console.error(`Error encrypting ${key}:`, error)
+      reportWriteError(key, error)
+    })
+    .finally(() => {
+      pendingWrites.delete(write)
+    })
+  pendingWrites.add(write)
+}
+
+/**
+ * Storage for everything the app keeps on this device. Works like localStorage while the app
+ * lock is off; while it is on, values are encrypted at rest and can only be read once unlocked.
+ */
+export const secureStorage: StorageLike = {
+  getItem(key) {
+    if (!state.enabled || PLAIN_KEYS.includes(key)) return localStorage.getItem(key)
+    if (!state.unlocked) throw new Error('Storage is locked')
+    return cache.get(key) ?? null
+  },
+  setItem(key, value) {
+    if (!state.enabled || PLAIN_KEYS.includes(key)) {
+      try {
+        localStorage.setItem(key, value)
+      } catch (error) {
+        reportWriteError(key, error)
+        throw error
+      }
+      return
+    }
+    if (!state.unlocked) throw new Error('Storage is locked')
+
+    cache.set(key, value)
+    writeEncrypted(key, value)
+  },
+  removeItem(key) {
+    if (state.enabled && !PLAIN_KEYS.includes(key)) {
+      if (!state.unlocked) throw new Error('Storage is locked')
+      cache.delete(key)
+      writeVersions.set(key, (writeVersions.get(key) ?? 0) + 1)
+    }
+    localStorage.removeItem(key)
+  }
+}
+
+/**
+ * Listen for values that couldn't be stored. Writes happen after the value changes and, while
+ * the app lock is on, in the background, so the code that changed it never sees the error.
+ * @param callback Called with the key and the error
+ */
+export function onWriteError(callback: (key: string, error: unknown) => void) {
+  writeErrorCallbacks.push(callback)
+}
+
+/**
+ * Whether the app lock is on for this device
+ */
+export function isAppLockEnabled() {
+  return state.enabled
+}
+
+/**
+ * Whether stored data can't be read until the passphrase is entered
+ */
+export function isStorageLocked() {
+  return state.enabled && !state.unlocked
+}
+
+/**
+ * Wait for encrypted writes still in progress, e.g. before reloading the page
+ */
+export async function flushSecureStorage() {
+  while (pendingWrites.size > 0) {
+    await Promise.all(pendingWrites)
+  }
+}
+
+/**
+ * Unlock stored data with the passphrase. Values left unencrypted, e.g. by an interrupted
+ * change of settings, are encrypted now.
+ * @param passphrase The app lock passphrase
+ */
+export async function unlockStorage(passphrase: string) {
+  const config = readConfig()
+  if (!config) throw new Error('The app lock is not set up')
+
+  const key = await unwrapDataKey(config, passphrase)
+  const values = await Promise.all(getProtectedKeys().map(async name => {
+    const stored = localStorage.getItem(name)!
+    return { name, stored, value: stored.startsWith(ENCRYPTED_PREFIX) ? await decrypt(key, stored) : stored }
+  }))
+
+  dataKey = key
+  for (const { name, stored, value } of values) {
+    cache.set(name, value)
+    if (!stored.startsWith(ENCRYPTED_PREFIX)) {
+      writeEncrypted(name, value)
+    }
+  }
+  state.unlocked = true
+}
+
+/**
+ * Turn the app lock on and encrypt everything stored so far
+ * @param passphrase The new passphrase
+ */
+export async function enableAppLock(passphrase: string) {
+  if (state.enabled) throw new Error('The app lock is already on')
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt'])
+  const config = await wrapDataKey(key, passphrase)
+
+  // Saved before anything is encrypted, so an interruption never leaves data nobody can decrypt
+  localStorage.setItem(APP_LOCK_KEY, JSON.stringify(config))
+  dataKey = await unwrapDataKey(config, passphrase)
+  state.enabled = true
+  state.unlocked = true
+
+  for (const name of getProtectedKeys()) {
+    const value = localStorage.getItem(name)!
+    cache.set(name, value)
+    writeEncrypted(name, value)
+  }
+  await flushSecureStorage()
+}
+
+/**
+ * Change the passphrase. The data stays encrypted with the same key.
+ * @param currentPassphrase The passphrase in use
+ * @param newPassphrase The passphrase to use from now on
+ */
+export async function changeAppLockPassphrase(currentPassphrase: string, newPassphrase: string) {
+  const config = readConfig()
+  if (!config) throw new Error('The app lock is not set up')
+
+  const key = await unwrapDataKey(config, currentPassphrase, true)
+  localStorage.setItem(APP_LOCK_KEY, JSON.stringify(await wrapDataKey(key, newPassphrase)))
+}
+
+/**
+ * Turn the app lock off and store everything unencrypted again
+ * @param passphrase The passphrase in use
+ */
+export async function disableAppLock(passphrase: string) {
+  const config = readConfig()
+  if (!config) throw new Error('The app lock is not set up')
+  if (!state.unlocked) throw new Error('Storage is locked')
+
+  await unwrapDataKey(config, passphrase)
+  await flushSecureStorage()
+
+  // Unlocking treats unencrypted values as current, so an interruption here loses nothing
+  for (const [name, value] of cache) {
+    localStorage.setItem(name, value)
+  }
+  localStorage.removeItem(APP_LOCK_KEY)
+
+  state.enabled = false
+  state.unlocked = false
+  dataKey = null
+  cache.clear()
+}
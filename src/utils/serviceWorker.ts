@@ -0,0 +1,156 @@
+// Reminder database shared with the service worker. Must match public/sw.js.
+const DB_NAME = 'estropad-sw'
+const DB_VERSION = 2
+const REMINDERS_STORE = 'reminders'
+const ACTIONS_STORE = 'actions'
+
+const PERIODIC_SYNC_TAG = 'patch-reminders'
+
+// A reminder the service worker shows when it is due
+export interface ScheduledReminder {
+  id: string // Reminder ID, also the notification tag
+  title: string
+  body: string
+  dueAt: number // Epoch ms of the patch change or dose
+  notifyAt: number // Epoch ms
+  notifiedAt?: number // Epoch ms; set when the app already showed it
+  snoozeMinutes: number
+  // Text for the "mark as changed" or "mark as taken" action and its confirmation
+  labels: { changedAction: string, changedConfirmation: string }
+  disguised?: boolean // Leave out the app icon
+}
+
+// Something the user did from a notification while the app was closed
+export interface PendingAction {
+  id: string
+  type: 'changed' | 'snoozed'
+  reminderId: string
+  dueAt: number // Epoch ms; the reminder's due time when the action was taken
+  at: number // Epoch ms
+  until?: number // Epoch ms; end of a snooze
+}
+
+// Periodic Background Sync isn't in the DOM typings yet
+interface PeriodicSyncRegistration extends ServiceWorkerRegistration {
+  periodicSync?: { register(tag: string, options: { minInterval: number }): Promise<void> }
+}
+
+let registration: ServiceWorkerRegistration | null = null
+
+/**
+ * Register the service worker and ask for periodic wake-ups where supported
+ * @returns The registration, or null when service workers are unavailable
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  // The dev server serves unbundled modules that the shell cache would get in the way of
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) {
+    return null
+  }
+
+  try {
+    await navigator.serviceWorker.register('/sw.js')
+    registration = await navigator.serviceWorker.ready
+  } catch (error) {
+    console.error('Error registering service worker:', error)
+    return null
+  }
+
+  try {
+    const periodicSync = (registration as PeriodicSyncRegistration).periodicSync
+    if (periodicSync) {
+      await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: 15 * 60 * 1000 })
+    }
+  } catch (error) {
+    // Only installed apps may use periodic sync; reminders still fire when the app is opened
+    console.warn('Periodic sync unavailable:', error)
+  }
+
+  return registration
+}
+
+/**
+ * Whether the browser wakes the service worker to show reminders while the app is closed. Only
+ * installed apps in browsers with Periodic Background Sync (Chrome and Edge) are woken; elsewhere
+ * reminders due while the app is closed are shown when it next opens.
+ * @returns True when reminders can be shown with the app closed
+ */
+export function canRemindWhileClosed() {
+  return 'serviceWorker' in navigator &&
+    'periodicSync' in ServiceWorkerRegistration.prototype &&
+    window.matchMedia('(display-mode: standalone)').matches
+}
+
+/**
+ * The active service worker registration, if one was registered
+ * @returns The registration or null
+ */
+export function getServiceWorkerRegistration() {
+  return registration
+}
+
+/**
+ * Send a message to the active service worker
+ * @param message The message to post
+ */
+export function postToServiceWorker(message: { type: 'schedule', reminders: ScheduledReminder[] }) {
+  registration?.active?.postMessage(message)
+}
+
+/**
+ * Listen for messages from the service worker
+ * @param callback Called with each message
+ */
+export function onServiceWorkerMessage(callback: (message: { type: string }) => void) {
+  if (!('serviceWorker' in navigator)) return
+
+  navigator.serviceWorker.addEventListener('message', event => callback(event.data || {}))
+}
+
+// Open the reminder database, creating its stores on first use
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = event => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(REMINDERS_STORE)) {
+        db.createObjectStore(REMINDERS_STORE, { keyPath: 'id' })
+      } else if (event.oldVersion < 2) {
+        // Version 1 only held patch reminders, keyed by application; the app sends a fresh schedule
+        request.transaction!.objectStore(REMINDERS_STORE).clear()
+      }
+      if (!db.objectStoreNames.contains(ACTIONS_STORE)) {
+        db.createObjectStore(ACTIONS_STORE, { keyPath: 'id' })
+      } else if (event.oldVersion < 2) {
+        request.transaction!.objectStore(ACTIONS_STORE).clear()
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Read and clear the actions taken from notifications
+ * @returns The actions, oldest first
+ */
+export async function takePendingActions(): Promise<PendingAction[]> {
+  if (!('indexedDB' in window)) return []
+
+  const db = await openDb()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ACTIONS_STORE, 'readwrite')
+    const store = transaction.objectStore(ACTIONS_STORE)
+    const request = store.getAll()
+
+    request.onsuccess = () => store.clear()
+    transaction.oncomplete = () => {
+      db.close()
+      resolve((request.result as PendingAction[]).sort((a, b) => a.at - b.at))
+    }
+    transaction.onerror = () => {
+      db.close()
+      reject(transaction.error)
+    }
+  })
+}
@@ -0,0 +1,186 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { ref } from 'vue'
+import { createSync } from '../../server/sync.js'
+import { ApiError, apiRequest, type ApiRequestOptions } from './api'
+import { createRestSyncAdapter } from './sync'
+
+// Every device keeps its data in memory, for one signed-in account
+vi.mock('./userStorage', () => ({
+  getStorageUser: () => 'user-1',
+  useUserStorage: <T>(_key: string, defaults: T | (() => T)) => {
+    return ref(typeof defaults === 'function' ? (defaults as () => T)() : defaults)
+  }
+}))
+
+vi.mock('./api', async importOriginal => ({
+  ...await importOriginal<typeof import('./api')>(),
+  apiRequest: vi.fn()
+}))
+
+interface Note {
+  id: string
+  text: string
+}
+
+const USER = { id: 'user-1' }
+
+let requests: { method: string, path: string, changes?: number }[]
+
+// Send the adapter's requests to the reference server's sync handlers, like server/index.js does
+beforeEach(() => {
+  const server = createSync({ data: { sync: {} }, save: async () => {} })
+  requests = []
+
+  vi.mocked(apiRequest).mockImplementation(async (path: string, options: ApiRequestOptions = {}) => {
+    const url = new URL(path, 'http://localhost')
+    const collection = decodeURIComponent(url.pathname.replace('/sync/', ''))
+    // Copied through JSON as over the network, so no device shares objects with the server
+    const body = options.body === undefined ? undefined : JSON.parse(JSON.stringify(options.body))
+    requests.push({ method: options.method ?? 'GET', path: url.pathname, changes: body?.changes.length })
+
+    try {
+      const response = options.method === 'POST'
+        ? await server.applyChanges(USER, collection, body)
+        : server.getChanges(USER, collection, Number(url.searchParams.get('since')) || 0)
+      return JSON.parse(JSON.stringify(response))
+    } catch (error) {
+      const { message, status } = error as { message: string, status: number }
+      throw new ApiError(message, status)
+    }
+  })
+})
+
+// A device with one synced collection of notes
+function createDevice(notes: Note[] = [], conflicts: 'ask' | 'remote' = 'ask') {
+  const adapter = createRestSyncAdapter(async () => 'token')
+  const data = adapter.useCollection<Note>('notes', notes, { conflicts })
+  return { adapter, data }
+}
+
+describe('createRestSyncAdapter', () => {
+  it('pushes local records and pulls them on another device', async () => {
+    const phone = createDevice([{ id: 'a', text: 'Hello' }])
+    const laptop = createDevice()
+    const changed = vi.fn()
+    laptop.adapter.onRemoteChange(changed)
+
+    await phone.adapter.sync()
+    await laptop.adapter.sync()
+
+    expect(phone.adapter.state.status).toBe('idle')
+    expect(phone.adapter.pendingCount.value).toBe(0)
+    expect(laptop.data.value).toEqual([{ id: 'a', text: 'Hello' }])
+    expect(changed).toHaveBeenCalledWith('notes')
+  })
+
+  it('only pulls what changed since the last sync', async () => {
+    const phone = createDevice([{ id: 'a', text: 'Hello' }])
+    await phone.adapter.sync()
+    await phone.adapter.sync()
+
+    expect(requests.filter(request => request.method === 'POST')).toHaveLength(1)
+    expect(phone.data.value).toEqual([{ id: 'a', text: 'Hello' }])
+  })
+
+  it('passes deletions on as tombstones', async () => {
+    const phone = createDevice([{ id: 'a', text: 'Hello' }, { id: 'b', text: 'World' }])
+    const laptop = createDevice()
+    await phone.adapter.sync()
+    await laptop.adapter.sync()
+
+    phone.data.value = phone.data.value.filter(note => note.id !== 'a')
+    expect(phone.adapter.pendingCount.value).toBe(1)
+    await phone.adapter.sync()
+    await laptop.adapter.sync()
+
+    expect(laptop.data.value).toEqual([{ id: 'b', text: 'World' }])
+  })
+
+  it('keeps a record changed on two devices as a conflict until one copy is picked', async () => {
+    const phone = createDevice([{ id: 'a', text: 'Hello' }])
+    const laptop = createDevice()
+    await phone.adapter.sync()
+    await laptop.adapter.sync()
+
+    phone.data.value = [{ id: 'a', text: 'From the phone' }]
+    laptop.data.value = [{ id: 'a', text: 'From the laptop' }]
+    await phone.adapter.sync()
+    await laptop.adapter.sync()
+
+    const [conflict] = laptop.adapter.conflicts.value
+    expect(laptop.adapter.conflicts.value).toHaveLength(1)
+    expect(conflict).toMatchObject({
+      collection: 'notes',
+      id: 'a',
+      local: { id: 'a', text: 'From the laptop' },
+      remote: { id: 'a', text: 'From the phone' }
+    })
+    expect(laptop.data.value).toEqual([{ id: 'a', text: 'From the laptop' }])
+
+    laptop.adapter.resolveConflict(conflict, 'local')
+    await laptop.adapter.sync()
+    await phone.adapter.sync()
+
+    expect(laptop.adapter.conflicts.value).toHaveLength(0)
+    expect(phone.data.value).toEqual([{ id: 'a', text: 'From the laptop' }])
+  })
+
+  it('takes the server copy when a conflict is settled that way', async () => {
+    const phone = createDevice([{ id: 'a', text: 'Hello' }])
+    const laptop = createDevice()
+    await phone.adapter.sync()
+    await laptop.adapter.sync()
+
+    phone.data.value = []
+    laptop.data.value = [{ id: 'a', text: 'Edited' }]
+    await phone.adapter.sync()
+    await laptop.adapter.sync()
+
+    const [conflict] = laptop.adapter.conflicts.value
+    expect(conflict.remote).toBeNull()
+
+    laptop.adapter.resolveConflict(conflict, 'remote')
+    expect(laptop.data.value).toEqual([])
+    expect(laptop.adapter.pendingCount.value).toBe(0)
+  })
+
+  it('takes the server copy without asking for collections set up that way', async () => {
+    const phone = createDevice([{ id: 'a', text: 'Hello' }], 'remote')
+    const laptop = createDevice([], 'remote')
+    await phone.adapter.sync()
+    await laptop.adapter.sync()
+
+    phone.data.value = [{ id: 'a', text: 'From the phone' }]
+    laptop.data.value = [{ id: 'a', text: 'From the laptop' }]
+    await phone.adapter.sync()
+    await laptop.adapter.sync()
+
+    expect(laptop.adapter.conflicts.value).toHaveLength(0)
+    expect(laptop.data.value).toEqual([{ id: 'a', text: 'From the phone' }])
+  })
+
+  it('lets a device syncing for the first time take the account copy of matching defaults', async () => {
+    const phone = createDevice([{ id: 'a', text: 'Renamed' }])
+    await phone.adapter.sync()
+
+    const laptop = createDevice([{ id: 'a', text: 'Default' }])
+    await laptop.adapter.sync()
+
+    expect(laptop.adapter.conflicts.value).toHaveLength(0)
+    expect(laptop.data.value).toEqual([{ id: 'a', text: 'Renamed' }])
+  })
+
+  it('pushes more changes than the server takes at once in batches', async () => {
+    const notes = Array.from({ length: 2500 }, (_, index) => ({ id: `note-${index}`, text: 'Hello' }))
+    const phone = createDevice(notes)
+    const laptop = createDevice()
+
+    await phone.adapter.sync()
+    await laptop.adapter.sync()
+
+    expect(phone.adapter.state.status).toBe('idle')
+    expect(requests.filter(request => request.method === 'POST').map(request => request.changes)).toEqual([1000, 1000, 500])
+    expect(phone.adapter.pendingCount.value).toBe(0)
+    expect(laptop.data.value).toHaveLength(2500)
+  })
+})
@@ -0,0 +1,370 @@
+import { computed, reactive, shallowReactive, type ComputedRef, type Ref } from 'vue'
+import { ApiError, apiRequest } from './api'
+import { getStorageUser, useUserStorage } from './userStorage'
+import type { CollectionOptions, PersistenceAdapter, SyncRecord } from './persistence'
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error'
+
+// A record changed both here and on the server, waiting for the user to pick one
+export interface SyncConflict {
+  collection: string
+  id: string
+  local: SyncRecord | null // Null when deleted here
+  remote: SyncRecord | null // Null when deleted on the server
+  remoteRevision: number
+  detectedAt: string // ISO date string
+}
+
+export interface SyncState {
+  status: SyncStatus
+  lastSyncedAt: string | null // ISO date string
+  error: string | null
+}
+
+export interface RestSyncAdapter extends PersistenceAdapter {
+  state: SyncState
+  conflicts: Ref<SyncConflict[]>
+  pendingCount: ComputedRef<number> // Local changes not yet on the server
+  sync(): Promise<void>
+  resolveConflict(conflict: SyncConflict, keep: 'local' | 'remote'): void
+}
+
+// What this device last agreed with the server about a record
+interface RecordSyncMeta {
+  revision: number // Server revision of the record
+  hash: string // Hash of the record at that revision
+}
+
+interface CollectionSyncMeta {
+  revision: number // Latest server revision pulled
+  records: Record<string, RecordSyncMeta>
+}
+
+// A record as the server has it
+interface RemoteChange {
+  id: string
+  revision: number
+  record: SyncRecord | null // Null when deleted
+}
+
+interface PushResult {
+  id: string
+  status: 'applied' | 'conflict'
+  revision: number
+  record?: SyncRecord | null // The server's copy, for conflicts
+}
+
+interface PendingChange {
+  id: string
+  baseRevision: number // Server revision the change was made from (0 for new records)
+  record: SyncRecord | null
+  hash: string | null
+}
+
+interface SyncedCollection {
+  key: string
+  data: Ref<SyncRecord[]>
+  options: CollectionOptions
+}
+
+// Most changes the server takes in one request. Must match server/sync.js.
+const MAX_CHANGES = 1000
+
+// JSON with object keys in a fixed order, so equal records always serialize the same way
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// FNV-1a hash of a record's content
+function hashRecord(record: SyncRecord) {
+  const text = stableStringify(record)
+  let hash = 0x811c9dc5
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16)
+}
+
+/**
+ * Storage that keeps collections in step with the backend. Changes are kept here first and
+ * pushed when the server can be reached, so the app works the same offline. Each record is
+ * synced on its own, so only a record changed in two places at once can conflict.
+ * @param getAccessToken Gets a current access token for the signed-in user
+ * @returns A persistence adapter that syncs
+ */
+export function createRestSyncAdapter(getAccessToken: () => Promise<string>): RestSyncAdapter {
+  const collections = shallowReactive(new Map<string, SyncedCollection>())
+  const meta = useUserStorage<Record<string, CollectionSyncMeta>>('sync-meta', {})
+  const conflicts = useUserStorage<SyncConflict[]>('sync-conflicts', [])
+  const remoteChangeCallbacks: ((key: string) => void)[] = []
+
+  const state = reactive<SyncState>({
+    status: 'idle',
+    lastSyncedAt: null,
+    error: null
+  })
+
+  // Sync in progress, shared so only one runs at a time
+  let running: Promise<void> | null = null
+
+  function getMeta(key: string) {
+    if (!meta.value[key]) {
+      meta.value[key] = { revision: 0, records: {} }
+    }
+    return meta.value[key]
+  }
+
+  function findConflict(key: string, id: string) {
+    return conflicts.value.find(conflict => conflict.collection === key && conflict.id === id)
+  }
+
+  function removeConflict(key: string, id: string) {
+    conflicts.value = conflicts.value.filter(conflict => conflict.collection !== key || conflict.id !== id)
+  }
+
+  function addConflict(conflict: SyncConflict) {
+    removeConflict(conflict.collection, conflict.id)
+    conflicts.value.push(conflict)
+  }
+
+  // Records that differ from what the server last had, other than ones waiting on a decision
+  function getPendingChanges(collection: SyncedCollection) {
+    const collectionMeta = meta.value[collection.key] ?? { revision: 0, records: {} }
+    const changes: PendingChange[] = []
+    const seen = new Set<string>()
+
+    for (const record of collection.data.value) {
+      seen.add(record.id)
+      const known = collectionMeta.records[record.id]
+      const hash = hashRecord(record)
+
+      if (known?.hash !== hash && !findConflict(collection.key, record.id)) {
+        changes.push({ id: record.id, baseRevision: known?.revision ?? 0, record, hash })
+      }
+    }
+
+    for (const [id, known] of Object.entries(collectionMeta.records)) {
+      if (!seen.has(id) && !findConflict(collection.key, id)) {
+        changes.push({ id, baseRevision: known.revision, record: null, hash: null })
+      }
+    }
+
+    return changes
+  }
+
+  const pendingCount = computed(() => {
+    let count = 0
+    for (const collection of collections.values()) {
+      count += getPendingChanges(collection).length
+    }
+    return count
+  })
+
+  // Write the server's copy of a record locally and remember it as agreed
+  function applyRemote(collection: SyncedCollection, change: RemoteChange) {
+    const records = collection.data.value
+    const index = records.findIndex(record => record.id === change.id)
+
+    if (change.record) {
+      if (index === -1) {
+        records.push(change.record)
+      } else {
+        records.splice(index, 1, change.record)
+      }
+      getMeta(collection.key).records[change.id] = { revision: change.revision, hash: hashRecord(change.record) }
+    } else {
+      if (index !== -1) {
+        records.splice(index, 1)
+      }
+      delete getMeta(collection.key).records[change.id]
+    }
+
+    removeConflict(collection.key, change.id)
+  }
+
+  // Handle the server's copy of a record that may also have changed here
+  function receiveRemote(collection: SyncedCollection, change: RemoteChange, preferRemote = false) {
+    const known = getMeta(collection.key).records[change.id]
+
+    // Nothing this device doesn't have, e.g. its own push coming back after it changed again
+    if (known && change.revision <= known.revision) return false
+
+    const local = collection.data.value.find(record => record.id === change.id) ?? null
+    const localHash = local ? hashRecord(local) : null
+    const changedHere = localHash !== (known?.hash ?? null)
+    const remoteHash = change.record ? hashRecord(change.record) : null
+
+    // Already the same here, e.g. our own change coming back
+    if (localHash === remoteHash) {
+      if (change.record && remoteHash) {
+        getMeta(collection.key).records[change.id] = { revision: change.revision, hash: remoteHash }
+      } else {
+        delete getMeta(collection.key).records[change.id]
+      }
+      removeConflict(collection.key, change.id)
+      return false
+    }
+
+    if (!changedHere || preferRemote || collection.options.conflicts === 'remote') {
+      applyRemote(collection, change)
+      return true
+    }
+
+    addConflict({
+      collection: collection.key,
+      id: change.id,
+      local,
+      remote: change.record,
+      remoteRevision: change.revision,
+      detectedAt: new Date().toISOString()
+    })
+    return false
+  }
+
+  function notifyRemoteChange(key: string) {
+    for (const callback of remoteChangeCallbacks) {
+      callback(key)
+    }
+  }
+
+  async function pull(collection: SyncedCollection, token: string, userId: string) {
+    const since = getMeta(collection.key).revision
+
+    // A device syncing for the first time only has defaults where IDs match, like the built-in
+    // patch types, so the account's copies win
+    const firstSync = since === 0 && Object.keys(getMeta(collection.key).records).length === 0
+    const response = await apiRequest<{ revision: number, changes: RemoteChange[] }>(
+      `/sync/${encodeURIComponent(collection.key)}?since=${since}`,
+      { token }
+    )
+    if (getStorageUser() !== userId) return
+
+    let applied = false
+    for (const change of response.changes) {
+      applied = receiveRemote(collection, change, firstSync) || applied
+    }
+    getMeta(collection.key).revision = response.revision
+
+    if (applied) {
+      notifyRemoteChange(collection.key)
+    }
+  }
+
+  // Send changes in batches the server accepts, remembering the revisions of each batch
+  // before the next, so a failure part way only leaves the rest to send again
+  async function push(collection: SyncedCollection, token: string, userId: string) {
+    const pending = getPendingChanges(collection)
+
+    for (let start = 0; start < pending.length; start += MAX_CHANGES) {
+      await pushBatch(collection, pending.slice(start, start + MAX_CHANGES), token, userId)
+      if (getStorageUser() !== userId) return
+    }
+  }
+
+  async function pushBatch(collection: SyncedCollection, changes: PendingChange[], token: string, userId: string) {
+    const response = await apiRequest<{ results: PushResult[] }>(`/sync/${encodeURIComponent(collection.key)}`, {
+      method: 'POST',
+      token,
+      body: { changes: changes.map(({ id, baseRevision, record }) => ({ id, baseRevision, record })) }
+    })
+    if (getStorageUser() !== userId) return
+
+    let applied = false
+    for (const result of response.results) {
+      const change = changes.find(item => item.id === result.id)
+      if (!change) continue
+
+      if (result.status === 'applied') {
+        // If the record changed again while this was in flight it stays pending
+        if (change.record && change.hash) {
+          getMeta(collection.key).records[result.id] = { revision: result.revision, hash: change.hash }
+        } else {
+          delete getMeta(collection.key).records[result.id]
+        }
+      } else {
+        applied = receiveRemote(collection, { id: result.id, revision: result.revision, record: result.record ?? null }) || applied
+      }
+    }
+
+    if (applied) {
+      notifyRemoteChange(collection.key)
+    }
+  }
+
+  // Pull changes from the server, then push ours
+  function sync() {
+    if (running) return running
+
+    running = (async () => {
+      const userId = getStorageUser()
+      if (!userId) return
+
+      state.status = 'syncing'
+
+      try {
+        const token = await getAccessToken()
+
+        for (const collection of collections.values()) {
+          await pull(collection, token, userId)
+          await push(collection, token, userId)
+        }
+
+        state.status = 'idle'
+        state.lastSyncedAt = new Date().toISOString()
+        state.error = null
+      } catch (error) {
+        state.status = error instanceof ApiError && error.status === 0 ? 'offline' : 'error'
+        state.error = error instanceof Error ? error.message : 'Sync failed'
+      }
+    })().finally(() => {
+      running = null
+    })
+
+    return running
+  }
+
+  // Settle a conflict. Keeping the local copy overwrites the server's on the next sync.
+  function resolveConflict(conflict: SyncConflict, keep: 'local' | 'remote') {
+    const collection = collections.get(conflict.collection)
+    if (!collection) return
+
+    if (keep === 'remote') {
+      applyRemote(collection, { id: conflict.id, revision: conflict.remoteRevision, record: conflict.remote })
+      notifyRemoteChange(collection.key)
+    } else {
+      // An empty hash never matches, so the local copy is pushed on top of the server's revision
+      getMeta(collection.key).records[conflict.id] = { revision: conflict.remoteRevision, hash: '' }
+      removeConflict(conflict.collection, conflict.id)
+    }
+  }
+
+  return {
+    state,
+    conflicts,
+    pendingCount,
+    sync,
+    resolveConflict,
+    useValue(key, defaults, options) {
+      return useUserStorage(key, defaults, options)
+    },
+    useCollection<T extends SyncRecord>(key: string, defaults: T[] | (() => T[]), options: CollectionOptions = {}) {
+      const data = useUserStorage<T[]>(key, defaults)
+      collections.set(key, { key, data: data as Ref<SyncRecord[]>, options })
+      return data
+    },
+    onRemoteChange(callback) {
+      remoteChangeCallbacks.push(callback)
+    }
+  }
+}
@@ -0,0 +1,49 @@
+export type LabAnalyte = 'estradiol' | 'testosterone' | 'prolactin' | 'progesterone' | 'shbg' | 'lh' | 'fsh' | 'other'
+
+export interface AnalyteInfo {
+  id: LabAnalyte
+  label: string
+  units: string[] // First unit is the one results are compared in
+  factors: Record<string, number> // Multiply a value in the key unit to get the first unit
+}
+
+// Analytes we know how to convert. Factors follow the usual SI conversions.
+export const ANALYTES: AnalyteInfo[] = [
+  { id: 'estradiol', label: 'Estradiol (E2)', units: ['pg/mL', 'pmol/L'], factors: { 'pg/mL': 1, 'pmol/L': 1 / 3.671 } },
+  { id: 'testosterone', label: 'Testosterone (total)', units: ['ng/dL', 'nmol/L'], factors: { 'ng/dL': 1, 'nmol/L': 28.84 } },
+  { id: 'prolactin', label: 'Prolactin', units: ['ng/mL', 'mIU/L'], factors: { 'ng/mL': 1, 'mIU/L': 1 / 21.2 } },
+  { id: 'progesterone', label: 'Progesterone', units: ['ng/mL', 'nmol/L'], factors: { 'ng/mL': 1, 'nmol/L': 1 / 3.18 } },
+  { id: 'shbg', label: 'SHBG', units: ['nmol/L'], factors: { 'nmol/L': 1 } },
+  { id: 'lh', label: 'LH', units: ['IU/L', 'mIU/mL'], factors: { 'IU/L': 1, 'mIU/mL': 1 } },
+  { id: 'fsh', label: 'FSH', units: ['IU/L', 'mIU/mL'], factors: { 'IU/L': 1, 'mIU/mL': 1 } },
+  { id: 'other', label: 'Other', units: [], factors: {} }
+]
+
+/**
+ * Get conversion info for an analyte
+ * @param analyte The analyte ID
+ * @returns The analyte info, or the "other" entry when unknown
+ */
+export function getAnalyte(analyte: LabAnalyte): AnalyteInfo {
+  return ANALYTES.find(a => a.id === analyte) || ANALYTES[ANALYTES.length - 1]
+}
+
+/**
+ * Convert a lab value between units of the same analyte
+ * @param analyte The analyte measured
+ * @param value The value in the source unit
+ * @param fromUnit The unit the lab reported
+ * @param toUnit The unit to convert to
+ * @returns The converted value, or null when the units can't be converted
+ */
+export function convertLabValue(analyte: LabAnalyte, value: number, fromUnit: string, toUnit: string): number | null {
+  if (fromUnit === toUnit) return value
+
+  const { factors } = getAnalyte(analyte)
+  const from = factors[fromUnit]
+  const to = factors[toUnit]
+
+  if (from === undefined || to === undefined) return null
+
+  return (value * from) / to
+}
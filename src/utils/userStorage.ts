@@ -0,0 +1,107 @@
+import { customRef, effectScope, nextTick, ref, shallowRef, watch, type EffectScope, type Ref } from 'vue'
+import { useStorage, type UseStorageOptions } from '@vueuse/core'
+import { secureStorage } from './secureStorage'
+
+// Account that data recorded before signing in was handed to
+const GUEST_DATA_OWNER_KEY = 'guest-data-owner'
+
+// Signed-in account whose data the stores show, or null when signed out
+const storageUserId = ref<string | null>(null)
+
+/**
+ * Storage key of a piece of user data for the signed-in account.
+ * Data from before signing in lives under the bare key.
+ * @param key Key the data is known by, e.g. 'medication-doses'
+ * @param userId Account to get the key for (defaults to the signed-in one)
+ * @returns The key it is stored under
+ */
+export function userStorageKey(key: string, userId = storageUserId.value) {
+  return userId ? `user:${userId}:${key}` : key
+}
+
+/**
+ * The account whose data the stores currently show
+ * @returns Its ID, or null when signed out
+ */
+export function getStorageUser() {
+  return storageUserId.value
+}
+
+/**
+ * Switch user data to another account. The first account to sign in takes over data recorded before signing in.
+ * @param userId The signed-in account, or null after logging out
+ */
+export function setStorageUser(userId: string | null) {
+  if (userId && !secureStorage.getItem(GUEST_DATA_OWNER_KEY)) {
+    secureStorage.setItem(GUEST_DATA_OWNER_KEY, userId)
+  }
+
+  storageUserId.value = userId
+}
+
+/**
+ * Delete everything an account stored on this device
+ * @param userId The account to wipe
+ */
+export function clearUserStorage(userId: string) {
+  const prefix = userStorageKey('', userId)
+
+  for (const key of Object.keys(localStorage)) {
+    if (key.startsWith(prefix)) {
+      secureStorage.removeItem(key)
+    }
+  }
+}
+
+// Copy a key recorded before signing in to the account that took over guest data.
+// Returns whether the guest copy should be removed.
+function claimGuestData(key: string, userId: string) {
+  const userKey = userStorageKey(key, userId)
+  const guestValue = secureStorage.getItem(key)
+
+  if (guestValue === null || secureStorage.getItem(GUEST_DATA_OWNER_KEY) !== userId) return false
+
+  if (secureStorage.getItem(userKey) === null) {
+    secureStorage.setItem(userKey, guestValue)
+  }
+  return true
+}
+
+/**
+ * Like useLocalStorage, but kept in secure storage separately for each account and switched when the signed-in account changes
+ * @param key Key the data is known by
+ * @param defaults Value for an account that has none stored yet
+ * @param options Options passed on to useStorage
+ * @returns A ref to the signed-in account's data
+ */
+export function useUserStorage<T>(key: string, defaults: T | (() => T), options: UseStorageOptions<T> = {}): Ref<T> {
+  const current = shallowRef<Ref<T>>()
+  let scope: EffectScope | undefined
+
+  watch(storageUserId, userId => {
+    const claimed = userId ? claimGuestData(key, userId) : false
+
+    // Let the old account's pending write land before letting go of it
+    const previousScope = scope
+    nextTick(() => {
+      previousScope?.stop()
+      if (claimed) {
+        secureStorage.removeItem(key)
+      }
+    })
+
+    scope = effectScope(true)
+    current.value = scope.run(() => useStorage<T>(userStorageKey(key, userId), defaults, secureStorage, options))
+  }, { immediate: true, flush: 'sync' })
+
+  return customRef<T>((track, trigger) => ({
+    get() {
+      track()
+      return current.value!.value
+    },
+    set(value) {
+      current.value!.value = value
+      trigger()
+    }
+  }))
+}
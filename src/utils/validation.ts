@@ -0,0 +1,21 @@
+// Validators for account forms. Each returns an error message, or null when the value is fine.
+
+export const MIN_PASSWORD_LENGTH = 8
+
+export function validateEmail(email: string): string | null {
+  if (!email.trim()) return 'Please enter your email'
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim()) ? null : 'Please enter a valid email address'
+}
+
+export function validateUsername(username: string): string | null {
+  const trimmed = username.trim()
+  if (!trimmed) return 'Please choose a username'
+  if (trimmed.length < 3 || trimmed.length > 32) return 'Username must be 3 to 32 characters'
+  return /^[A-Za-z0-9_.-]+$/.test(trimmed) ? null : 'Username can only use letters, numbers, dots, dashes and underscores'
+}
+
+export function validatePassword(password: string): string | null {
+  if (!password) return 'Please enter a password'
+  if (password.length < MIN_PASSWORD_LENGTH) return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`
+  return password.length > 128 ? 'Password must be at most 128 characters long' : null
+}